@@ -1,20 +1,66 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { GoogleGenAI, LiveServerMessage, Modality } from '@google/genai';
+import { LiveServerMessage, LiveServerToolCall, Modality } from '@google/genai';
 import { 
-  createPcmBlob, 
   decode, 
   decodeAudioData, 
-  blobToBase64 
+  blobToBase64,
+  int16ToPcmBlob
 } from './utils/audioUtils';
+import { AudioCapture, createCaptureContext, startAudioCapture } from './utils/audioCapture';
+import { InputGate, InputSettingsService, createInputGate, INPUT_MODE_LABELS } from './utils/inputGate';
+import { WAKE_BACKEND_LABELS, WakeWordBackend, WakeWordListener, detectWakeWordBackend, startWakeWordListener } from './utils/wakeWord';
+import { FrameScheduler, FrameStats, VideoSettingsService, createFrameScheduler, isVisualQuestion } from './utils/frameScheduler';
+import { createObjectTracker, validateDetection } from './utils/objectTracker';
+import { contentRect, cropFrame, drawOverlay, drawSelection, overlayAt, pointToFrame, renderSnapshot } from './utils/arCanvas';
+import { SnapshotService } from './utils/snapshotService';
+import { LiveLink, LiveTransport, createTransport } from './utils/transport';
+import { CONNECTION_STATUS_LABELS, ConnectionEvent, ConnectionState, INITIAL_CONNECTION, MAX_RECONNECT_ATTEMPTS, backoffDelay, transition } from './utils/connectionState';
+import { VISION_SOURCE_LABELS, drawVisionFrame, encodeImageFile, isSupportedImage, startScreenShare, supportsScreenShare } from './utils/visionSource';
 import { MemoryService } from './utils/memoryService';
-import { TOOLS_DECLARATION, LogEntry, MemoryItem, AROverlayData } from './types';
+import { MemoryRetrieval } from './utils/memoryRetrieval';
+import { MemoryBackupService, MergeStrategy } from './utils/memoryBackup';
+import { downloadBlob, downloadText, fileTimestamp } from './utils/download';
+import { SessionRecorder, createSessionRecorder } from './utils/sessionRecorder';
+import { Diagnostics, DiagnosticsSnapshot, createDiagnostics } from './utils/diagnostics';
+import { int16Rms } from './utils/audioLevel';
+import { HistoryService } from './utils/historyService';
+import { ReminderService } from './utils/reminderService';
+import { DeviceRegistry } from './utils/deviceRegistry';
+import { ToolArgs, ToolError, ToolResult, createToolRegistry } from './utils/toolRegistry';
+import { CONFIRMATION_OUTCOME_LABELS, SensitiveRule, findSensitiveRule, parseSpokenConfirmation, refusalFor } from './utils/toolPolicy';
+import { AuditLogService } from './utils/auditLog';
+import { SessionSettingsService, buildSystemInstruction } from './utils/sessionSettings';
+import { createBuiltinTools } from './utils/builtinTools';
+import { LogBuffer, LogSettingsService, createLogBuffer } from './utils/logBuffer';
+import { LogEntry, MemoryItem, Detection, AROverlayData, ReminderItem, SmartDevice, SessionEvent, SessionRecord, InputSettings, VisionSource, VideoSettings, SessionSettings, AuditEntry, ConfirmationOutcome, InputMode } from './types';
 import { Visualizer } from './components/Visualizer';
+import { ReminderPanel } from './components/ReminderPanel';
+import { DeviceRegistryPanel } from './components/DeviceRegistryPanel';
+import { MemoryPanel } from './components/MemoryPanel';
+import { HistoryPanel } from './components/HistoryPanel';
+import { SnapshotGallery } from './components/SnapshotGallery';
+import { AuditLogPanel } from './components/AuditLogPanel';
+import { SettingsPanel } from './components/SettingsPanel';
+import { RecordingIndicator } from './components/RecordingIndicator';
+import { DiagnosticsPanel } from './components/DiagnosticsPanel';
+import { ToolConfirmDialog, ConfirmationRequest } from './components/ToolConfirmDialog';
+import { InputModeControl } from './components/InputModeControl';
+import { CommandInput } from './components/CommandInput';
+import { LogPanel } from './components/LogPanel';
 
 // --- Constants ---
-const MODEL_NAME = 'gemini-2.5-flash-native-audio-preview-09-2025';
-const SAMPLE_RATE_IN = 16000;
 const SAMPLE_RATE_OUT = 24000;
-const FRAME_RATE = 1; 
+const VISUAL_QUESTION_BOOST_MS = 5000;
+const REMINDER_POLL_MS = 1000;
+const CONVERSATION_WINDOW = 20; // Recent snippets used to score memory relevance
+const MID_SESSION_MEMORY_BUDGET = 200; // Tokens of extra memories injected per turn
+const HISTORY_PERSIST_DEBOUNCE_MS = 2000;
+const UNTITLED_SESSION = '未命名会话';
+const RESUME_ATTEMPTS = 3; // Reconnects that try the resumption handle before starting a fresh server session
+const MIN_SELECTION_SIZE = 2; // Hand-drawn boxes smaller than this (0-100 units) are treated as clicks
+const CONFIRMATION_TIMEOUT_MS = 30000; // Unanswered sensitive calls are refused after this
+const DIAGNOSTICS_SAMPLE_MS = 1000;
+const VOICE_RMS = 0.01; // Roughly -40 dBFS; mic chunks louder than this count as the user speaking
 
 // --- Component: Device Selector ---
 const DeviceSelector = ({ 
@@ -81,12 +127,31 @@ const DeviceSelector = ({
 
 export default function App() {
   // --- State ---
-  const [isConnected, setIsConnected] = useState(false);
-  const [isConnecting, setIsConnecting] = useState(false);
+  const [connection, setConnection] = useState<ConnectionState>(INITIAL_CONNECTION);
+  const isConnected = connection.status === 'live';
+  const isConnecting = connection.status === 'connecting' || connection.status === 'reconnecting';
   const [logs, setLogs] = useState<LogEntry[]>([]);
+  const [logCapacity, setLogCapacity] = useState(LogSettingsService.loadCapacity);
   const [memories, setMemories] = useState<MemoryItem[]>([]);
   const [hasPermission, setHasPermission] = useState(false);
-  const [arOverlays, setArOverlays] = useState<AROverlayData[]>([]);
+  const [reminders, setReminders] = useState<ReminderItem[]>([]);
+  const [devices, setDevices] = useState<SmartDevice[]>([]);
+  const [showDeviceRegistry, setShowDeviceRegistry] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showGallery, setShowGallery] = useState(false);
+  const [showAudit, setShowAudit] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
+  const [recordingSince, setRecordingSince] = useState<number | null>(null);
+  const [diagnostics, setDiagnostics] = useState<DiagnosticsSnapshot | null>(null);
+  const [confirmation, setConfirmation] = useState<ConfirmationRequest | null>(null);
+  const [visionSource, setVisionSource] = useState<VisionSource>('camera');
+  const [isDraggingFile, setIsDraggingFile] = useState(false);
+  const [overlayMenu, setOverlayMenu] = useState<{ overlay: AROverlayData; left: number; top: number } | null>(null);
+  const [inputSettings, setInputSettings] = useState<InputSettings>(InputSettingsService.load());
+  const [micOpen, setMicOpen] = useState(false);
+  // What the mic is actually gated by this session; wake mode can fall back to VAD
+  const [activeInput, setActiveInput] = useState<{ mode: InputMode; backend?: WakeWordBackend } | null>(null);
+  const [frameStats, setFrameStats] = useState<FrameStats>({ captured: 0, sent: 0, bytesSent: 0 });
   
   // Device Selection
   const [showDeviceSelector, setShowDeviceSelector] = useState(false);
@@ -95,42 +160,126 @@ export default function App() {
 
   // --- Refs ---
   const videoRef = useRef<HTMLVideoElement>(null);
+  const pipVideoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const overlayCanvasRef = useRef<HTMLCanvasElement>(null);
-  const logsEndRef = useRef<HTMLDivElement>(null);
+  // Created once here rather than as useRef's argument, which would build a throwaway buffer every render
+  const logBufferRef = useRef<LogBuffer | null>(null);
+  if (!logBufferRef.current) logBufferRef.current = createLogBuffer(logCapacity);
   
   // Audio & Connection Refs
   const audioContextRef = useRef<AudioContext | null>(null);
   const inputContextRef = useRef<AudioContext | null>(null);
+  const captureRef = useRef<AudioCapture | null>(null);
+  const inputGateRef = useRef<InputGate | null>(null);
+  const wakeListenerRef = useRef<WakeWordListener | null>(null);
+  const inputModeGenerationRef = useRef(0); // Invalidates a wake-word setup still in flight
   const analyserRef = useRef<AnalyserNode | null>(null);
+  const inputAnalyserRef = useRef<AnalyserNode | null>(null);
+
+  // Vision Source Refs; the streams outlive any single connection attempt
+  const cameraStreamRef = useRef<MediaStream | null>(null);
+  const screenStreamRef = useRef<MediaStream | null>(null);
+  const visionSourceRef = useRef<VisionSource>('camera');
   const sourcesRef = useRef<Set<AudioBufferSourceNode>>(new Set());
   
   // Stability & State Refs
-  const sessionRef = useRef<any>(null);
-  const isStreamingRef = useRef(false);
+  const transportRef = useRef<LiveTransport | null>(null); // Chosen per session: real API or scripted mock
+  const sessionRef = useRef<Promise<LiveLink> | null>(null); // Promise of the current link; superseded links compare against it and go quiet
+  const handoverRef = useRef<Promise<LiveLink> | null>(null); // Replacement link opened after goAway; becomes current once set up
+  const connectionRef = useRef<ConnectionState>(INITIAL_CONNECTION); // Mirrors `connection` for callbacks
+  const resumeHandleRef = useRef<string | null>(null); // Latest session-resumption handle from the server
   const nextStartTimeRef = useRef<number>(0);
   const frameIntervalRef = useRef<number | null>(null);
+  const frameSchedulerRef = useRef<FrameScheduler | null>(null); // Per session; survives reconnects
   const activeAudioIdRef = useRef<string>('');
   const activeVideoIdRef = useRef<string>('');
-  const isUserDisconnectingRef = useRef<boolean>(false);
   const reconnectTimeoutRef = useRef<NodeJS.Timeout | null>(null);
-  const connectionAttemptIdRef = useRef<number>(0); // To prevent race conditions
+  const sessionIdRef = useRef<string>(''); // Stable across silent reconnects
+  const sessionSettingsRef = useRef<SessionSettings>(SessionSettingsService.load()); // Snapshot for the current session
+  const videoSettingsRef = useRef<VideoSettings>(VideoSettingsService.load()); // Likewise; frame rate and quality stay fixed until the next session
+
+  // Open transcript entries, one per speaker, until the turn completes
+  const transcriptRef = useRef<Record<'USER' | 'JARVIS', { logId: string; text: string } | null>>({ USER: null, JARVIS: null });
+
+  // Conversation History Refs
+  const sessionRecordRef = useRef<SessionRecord | null>(null);
+  const persistTimeoutRef = useRef<number | null>(null);
+  // The failure log is itself recorded, so a failing save would otherwise report itself every debounce
+  const historySaveFailingRef = useRef(false);
+
+  // Memory Retrieval Refs
+  const conversationRef = useRef<string[]>([]);
+  const injectedMemoryKeysRef = useRef<Set<string>>(new Set());
+
+  // Tools the model can call; the session config is built from whatever is registered at connect time
+  const toolRegistryRef = useRef(createToolRegistry());
+  // The prompt on screen, and the chain later sensitive calls wait behind
+  const confirmationRef = useRef<{ request: ConfirmationRequest; earlierLogId?: string; settle: (outcome: ConfirmationOutcome, via: AuditEntry['via']) => void } | null>(null);
+  const confirmationQueueRef = useRef<Promise<unknown>>(Promise.resolve());
+  const recorderRef = useRef<SessionRecorder | null>(null);
+  const diagnosticsRef = useRef<Diagnostics | null>(null);
+
+  // AR tracks persist between detections so boxes keep their IDs and move smoothly
+  const trackerRef = useRef(createObjectTracker());
+  // Box being dragged out by hand, in 0-100 frame coordinates
+  const selectionRef = useRef<{ start: { x: number; y: number }; box: AROverlayData['box'] | null } | null>(null);
+
+  // --- Conversation History ---
+  const persistSession = () => {
+    if (persistTimeoutRef.current) clearTimeout(persistTimeoutRef.current);
+    persistTimeoutRef.current = null;
+    const record = sessionRecordRef.current;
+    if (!record) return;
+    HistoryService.save({ ...record, events: [...record.events] })
+      .then(() => { historySaveFailingRef.current = false; })
+      .catch(e => {
+        if (historySaveFailingRef.current) return;
+        historySaveFailingRef.current = true;
+        addLog(`会话保存失败: ${e}`, "SYSTEM", "error");
+      });
+  };
+
+  const recordEvent = (event: Omit<SessionEvent, 'timestamp'>) => {
+    const record = sessionRecordRef.current;
+    if (!record) return;
+    record.events.push({ ...event, timestamp: Date.now() });
+    if (!persistTimeoutRef.current) {
+      persistTimeoutRef.current = window.setTimeout(persistSession, HISTORY_PERSIST_DEBOUNCE_MS);
+    }
+  };
 
   // --- Logging ---
-  const addLog = useCallback((message: string, source: LogEntry['source'] = 'SYSTEM', type: LogEntry['type'] = 'info') => {
-    setLogs(prev => [...prev, {
-      id: Math.random().toString(36).substr(2, 9),
+  const addLog = useCallback((message: string, source: LogEntry['source'] = 'SYSTEM', type: LogEntry['type'] = 'info', partial?: boolean) => {
+    const id = Math.random().toString(36).substr(2, 9);
+    // Tool invocations are recorded with their results in handleToolCalls; transcripts once finalized
+    if (!partial && !(source === 'TOOL' && type === 'info')) recordEvent({ kind: 'log', source, message, type });
+    const buffer = logBufferRef.current;
+    buffer.push({
+      id,
       timestamp: new Date().toLocaleTimeString('zh-CN'),
       source,
       message,
-      type
-    }]);
+      type,
+      partial
+    });
+    setLogs(buffer.toArray());
+    return id;
   }, []);
 
   // --- Init ---
   useEffect(() => {
-    setMemories(MemoryService.load());
+    MemoryService.load()
+      .then(setMemories)
+      .catch(e => addLog(`记忆库加载失败: ${e}`, "SYSTEM", "error"));
+    ReminderService.purgeInactive();
+    setReminders(ReminderService.listActive());
+    setDevices(DeviceRegistry.load());
     addLog("Jarvis 内核初始化...", "SYSTEM");
+
+    if ('Notification' in window && Notification.permission === 'default') {
+      Notification.requestPermission();
+    }
     
     // Initial permission check
     navigator.mediaDevices.getUserMedia({ audio: true, video: true })
@@ -140,16 +289,50 @@ export default function App() {
       })
       .catch(() => addLog("权限被拒绝。请检查浏览器设置。", "SYSTEM", "error"));
 
-    return () => {
-      isUserDisconnectingRef.current = true;
-      disconnect();
-    };
+    return () => disconnect();
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [addLog]);
 
+  // --- Diagnostics ---
+  // Sampled for the whole session, reconnects included; the last session's numbers stay up for export
+  useEffect(() => {
+    if (connection.status === 'idle') return;
+    const timer = window.setInterval(() => {
+      const collector = diagnosticsRef.current;
+      if (!collector) return;
+      collector.sample(playbackQueueMs());
+      setDiagnostics(collector.snapshot());
+    }, DIAGNOSTICS_SAMPLE_MS);
+    return () => window.clearInterval(timer);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [connection.status === 'idle']);
+
+  // --- Reminder Scheduler ---
   useEffect(() => {
-    logsEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [logs]);
+    const fireReminder = (reminder: ReminderItem) => {
+      addLog(`提醒: ${reminder.task}`, "SYSTEM", "warning");
+
+      if ('Notification' in window && Notification.permission === 'granted') {
+        new Notification('JARVIS 提醒', { body: reminder.task, tag: reminder.id });
+      }
+
+      // Let Jarvis announce it in its own voice when a session is live
+      if (isLive() && sessionRef.current) {
+        sessionRef.current.then(s => s.sendClientContent({
+          turns: [{ role: 'user', parts: [{ text: `[系统提醒触发] 请立即用语音提醒用户: ${reminder.task}` }] }],
+          turnComplete: true
+        }));
+      }
+    };
+
+    const id = window.setInterval(() => {
+      const due = ReminderService.collectDue();
+      if (due.length === 0) return;
+      due.forEach(fireReminder);
+      setReminders(ReminderService.listActive());
+    }, REMINDER_POLL_MS);
+    return () => clearInterval(id);
+  }, [addLog]);
 
   // --- AR Render Loop ---
   useEffect(() => {
@@ -166,72 +349,145 @@ export default function App() {
       }
 
       ctx.clearRect(0, 0, canvas.width, canvas.height);
-      const now = Date.now();
-      const activeOverlays = arOverlays.filter(o => now - o.timestamp < 3000);
-      if (activeOverlays.length !== arOverlays.length) setArOverlays(activeOverlays);
-
-      activeOverlays.forEach(overlay => {
-        const [ymin, xmin, ymax, xmax] = overlay.box;
-        const x = (xmin / 100) * canvas.width;
-        const y = (ymin / 100) * canvas.height;
-        const w = ((xmax - xmin) / 100) * canvas.width;
-        const h = ((ymax - ymin) / 100) * canvas.height;
-
-        ctx.strokeStyle = overlay.color;
-        ctx.lineWidth = 2;
-        ctx.shadowBlur = 8;
-        ctx.shadowColor = overlay.color;
-        const L = 15;
-
-        // Sci-fi Brackets
-        ctx.beginPath();
-        // TL
-        ctx.moveTo(x, y + L); ctx.lineTo(x, y); ctx.lineTo(x + L, y);
-        // TR
-        ctx.moveTo(x + w - L, y); ctx.lineTo(x + w, y); ctx.lineTo(x + w, y + L);
-        // BR
-        ctx.moveTo(x + w, y + h - L); ctx.lineTo(x + w, y + h); ctx.lineTo(x + w - L, y + h);
-        // BL
-        ctx.moveTo(x + L, y + h); ctx.lineTo(x, y + h); ctx.lineTo(x, y + h - L);
-        ctx.stroke();
-
-        // Label
-        ctx.font = 'bold 12px monospace';
-        const txt = overlay.label.toUpperCase();
-        const metrics = ctx.measureText(txt);
-        ctx.fillStyle = overlay.color;
-        ctx.fillRect(x, y - 20, metrics.width + 10, 20);
-        ctx.fillStyle = '#000';
-        ctx.fillText(txt, x + 5, y - 6);
-      });
-      requestAnimationFrame(renderAR);
+      const frame = contentRect(video, canvas.width, canvas.height);
+      trackerRef.current.step().forEach(({ overlay, alpha }) => drawOverlay(ctx, overlay, frame, alpha));
+      const selection = selectionRef.current?.box;
+      if (selection) drawSelection(ctx, selection, frame);
+      frameId = requestAnimationFrame(renderAR);
     };
-    const id = requestAnimationFrame(renderAR);
-    return () => cancelAnimationFrame(id);
-  }, [arOverlays]);
+    let frameId = requestAnimationFrame(renderAR);
+    return () => cancelAnimationFrame(frameId);
+  }, []);
 
   // --- Connection Logic ---
+  const isLive = () => connectionRef.current.status === 'live';
+
+  const dispatchConnection = (event: ConnectionEvent) => {
+    const next = transition(connectionRef.current, event);
+    connectionRef.current = next;
+    setConnection(next);
+    return next;
+  };
+
+  const clearReconnectTimer = () => {
+    if (reconnectTimeoutRef.current) clearTimeout(reconnectTimeoutRef.current);
+    reconnectTimeoutRef.current = null;
+  };
+
+  // Every unexpected end of a link (socket closed, connect rejected) ends up here
+  const handleLinkLost = (error?: string) => {
+    const state = dispatchConnection({ type: 'DROPPED', error });
+    if (state.status === 'failed') {
+      addLog(`连接失败，已重试 ${state.attempt} 次${error ? `: ${error}` : ''}`, "SYSTEM", "error");
+      return;
+    }
+    if (state.status !== 'reconnecting') return;
+    // A handle the server keeps rejecting would otherwise burn every retry
+    if (state.attempt === RESUME_ATTEMPTS && resumeHandleRef.current) {
+      resumeHandleRef.current = null;
+      addLog("无法续接原会话，将以新会话重连。", "SYSTEM", "warning");
+    }
+    diagnosticsRef.current?.reconnected(error || 'link lost');
+    const delay = backoffDelay(state.attempt);
+    addLog(`链路中断${error ? ` (${error})` : ''}，${(delay / 1000).toFixed(1)} 秒后重连 (${state.attempt}/${MAX_RECONNECT_ATTEMPTS})...`, "SYSTEM", "warning");
+    clearReconnectTimer();
+    reconnectTimeoutRef.current = setTimeout(connect, delay);
+  };
+
+  const retryConnection = () => {
+    if (dispatchConnection({ type: 'RETRY' }).status !== 'reconnecting') return;
+    addLog("手动重试连接...", "SYSTEM", "info");
+    connect();
+  };
+
   const handleDeviceSelection = async (audioId: string, videoId: string) => {
     setShowDeviceSelector(false);
+    const transport = createTransport();
+    if (typeof transport === 'string') {
+      addLog(transport, "SYSTEM", "error");
+      return;
+    }
+    if (dispatchConnection({ type: 'CONNECT' }).status !== 'connecting') return;
+    transportRef.current = transport;
+    if (transport.name === 'mock') addLog("模拟链路已启用，不会连接真实服务。", "SYSTEM", "warning");
     activeAudioIdRef.current = audioId;
     activeVideoIdRef.current = videoId;
-    isUserDisconnectingRef.current = false;
-    await connect(audioId, videoId);
+    resumeHandleRef.current = null;
+    // Settings are fixed for the session so reconnects resume with the same model and voice
+    sessionSettingsRef.current = SessionSettingsService.load();
+    videoSettingsRef.current = VideoSettingsService.load();
+    diagnosticsRef.current = createDiagnostics();
+    setDiagnostics(diagnosticsRef.current.snapshot());
+    sessionIdRef.current = `session_${Date.now()}`;
+    frameSchedulerRef.current = null;
+    setFrameStats({ captured: 0, sent: 0, bytesSent: 0 });
+    sessionRecordRef.current = { id: sessionIdRef.current, startedAt: Date.now(), title: UNTITLED_SESSION, events: [] };
+    addLog("正在初始化加密链路...", "SYSTEM");
+    await connect();
   };
 
-  const connect = async (audioId: string, videoId: string) => {
-    // 1. Generate unique attempt ID to handle race conditions
-    const attemptId = Date.now();
-    connectionAttemptIdRef.current = attemptId;
+  // Mic and camera are acquired once per session; reconnects keep streaming from the same tracks
+  const startMedia = async () => {
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({
+        audio: {
+          deviceId: activeAudioIdRef.current ? { exact: activeAudioIdRef.current } : undefined,
+          channelCount: 1,
+          echoCancellation: sessionSettingsRef.current.echoCancellation,
+          noiseSuppression: sessionSettingsRef.current.noiseSuppression,
+          autoGainControl: true,
+        },
+        video: {
+          deviceId: activeVideoIdRef.current ? { exact: activeVideoIdRef.current } : undefined,
+          width: { ideal: 1280 },
+          height: { ideal: 720 }
+        }
+      });
 
-    if (!process.env.API_KEY) {
-      addLog("API Key 缺失", "SYSTEM", "error");
-      return;
+      cameraStreamRef.current = stream;
+      attachVisionSource(visionSourceRef.current);
+
+      // Audio Input Processing
+      applyInputMode(InputSettingsService.load());
+      captureRef.current = await startAudioCapture(inputContextRef.current!, stream, (pcm, rate) => {
+        if (!isLive()) return;
+        const chunks = inputGateRef.current ? inputGateRef.current.process(pcm) : [pcm];
+        // Only what the gate lets through is recorded: that's what the model actually heard
+        if (recorderRef.current?.isFull()) stopRecording("录音已达时长上限，自动停止。");
+        // Latency runs from the last voiced chunk; while Jarvis is talking, the mic mostly hears echo
+        if (chunks.some(c => int16Rms(c) >= VOICE_RMS) && playbackQueueMs() === 0) diagnosticsRef.current?.userActivity();
+        // A gate opening releases its pre-roll in one go; the chunks are back to back and the last ends now
+        let startedAt = performance.now() - (chunks.reduce((n, c) => n + c.length, 0) / rate) * 1000;
+        chunks.forEach(c => {
+          diagnosticsRef.current?.audioSent(c.byteLength);
+          recorderRef.current?.add('input', c, rate, startedAt);
+          startedAt += (c.length / rate) * 1000;
+          sessionRef.current?.then(s => s.sendRealtimeInput({ media: int16ToPcmBlob(c, rate) }));
+        });
+      });
+      // Taps the raw mic, before gating, so the visualizer shows whether anything is being heard at all
+      const inputAnalyser = inputContextRef.current!.createAnalyser();
+      inputAnalyser.fftSize = 512;
+      captureRef.current.source.connect(inputAnalyser);
+      inputAnalyserRef.current = inputAnalyser;
+      if (captureRef.current.mode === 'script-processor') {
+        addLog(`AudioWorklet 不可用，使用兼容采集模式 (${inputContextRef.current!.sampleRate} Hz)`, "SYSTEM", "warning");
+      }
+
+      // Video Input Processing
+      startVideoStreaming();
+    } catch (err) {
+      addLog(`传感器挂载失败: ${err}`, "SYSTEM", "error");
+      disconnect();
     }
+  };
 
-    setIsConnecting(true);
-    // Only log if this isn't a silent reconnect
-    if (!isConnected) addLog("正在初始化加密链路...", "SYSTEM");
+  // Opens a link for the current session, resuming the server-side conversation when a handle is available.
+  // A handover link (after goAway) stays in the wings while the old link keeps serving, and takes over on setup.
+  const connect = async (handover = false) => {
+    clearReconnectTimer();
+    const transport = transportRef.current;
+    if (!transport) return;
 
     // 2. Setup Audio Contexts (Robust creation)
     try {
@@ -239,7 +495,7 @@ export default function App() {
       if (inputContextRef.current?.state === 'closed') inputContextRef.current = null;
 
       const audioCtx = audioContextRef.current || new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: SAMPLE_RATE_OUT });
-      const inCtx = inputContextRef.current || new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: SAMPLE_RATE_IN });
+      const inCtx = inputContextRef.current || createCaptureContext();
       
       // Resume if suspended (common browser behavior)
       if (audioCtx.state === 'suspended') await audioCtx.resume();
@@ -260,190 +516,691 @@ export default function App() {
 
     } catch (e) {
       addLog("音频核心启动失败", "SYSTEM", "error");
+      disconnect();
       return;
     }
 
-    // 3. Setup Gemini Client
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    const memoryContext = MemoryService.getContextString();
+    // 3. Memory Context
+    let initialMemories: MemoryItem[] = [];
+    try {
+      initialMemories = await MemoryRetrieval.selectForContext(conversationRef.current.join('\n'));
+    } catch (e) {
+      addLog(`记忆检索失败: ${e}`, "SYSTEM", "warning");
+    }
+    injectedMemoryKeysRef.current = new Set(initialMemories.map(m => m.key));
+    const memoryContext = MemoryRetrieval.format(initialMemories);
+    const settings = sessionSettingsRef.current;
     
     // 4. Connect
-    try {
-      const sessionPromise = ai.live.connect({
-        model: MODEL_NAME,
-        config: {
-          responseModalities: [Modality.AUDIO],
-          systemInstruction: `你是JARVIS。全能AI管家。始终用中文简练回答。视觉识别格式:[OBJECT:name:ymin,xmin,ymax,xmax]。\n记忆:${memoryContext}`,
-          tools: [{ functionDeclarations: TOOLS_DECLARATION }],
+    const previous = sessionRef.current;
+    let lost = false;
+    const isCurrent = () => sessionRef.current === sessionPromise;
+    const isPendingHandover = () => handoverRef.current === sessionPromise;
+    const loseLink = (error?: string) => {
+      if (lost) return;
+      if (isPendingHandover()) {
+        lost = true;
+        handoverRef.current = null;
+        // Retire the old link too; the regular reconnect below replaces both
+        sessionRef.current = null;
+        previous?.then(s => s.close()).catch(() => {});
+        addLog(`续接链路建立失败${error ? ` (${error})` : ''}。`, "SYSTEM", "warning");
+        handleLinkLost(error);
+        return;
+      }
+      if (!isCurrent()) return;
+      lost = true;
+      // The server closed the link it announced with goAway; keep waiting for the replacement
+      if (handoverRef.current) {
+        dispatchConnection({ type: 'GO_AWAY' });
+        return;
+      }
+      handleLinkLost(error);
+    };
+
+    const sessionPromise = transport.connect({
+      model: settings.model,
+      config: {
+        responseModalities: [Modality.AUDIO],
+        speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: settings.voice } } },
+        inputAudioTranscription: {},
+        outputAudioTranscription: {},
+        systemInstruction: buildSystemInstruction(settings, memoryContext),
+        tools: [{ functionDeclarations: DeviceRegistry.decorateTools(toolRegistryRef.current.declarations()) }],
+        // Resuming keeps the server-side conversation across dropped links
+        sessionResumption: { handle: resumeHandleRef.current || undefined },
+      },
+      callbacks: {
+        onopen: () => {
+          if (isCurrent() || isPendingHandover()) console.log("Socket open, awaiting setup");
         },
-        callbacks: {
-          onopen: async () => {
-            if (connectionAttemptIdRef.current !== attemptId) return; // Stale attempt
-            
-            addLog("系统在线。链路稳定。", "SYSTEM", "success");
-            setIsConnected(true);
-            setIsConnecting(false);
-            isStreamingRef.current = true;
-            nextStartTimeRef.current = 0;
-
-            // Media Streams
-            try {
-              const stream = await navigator.mediaDevices.getUserMedia({
-                audio: {
-                  deviceId: audioId ? { exact: audioId } : undefined,
-                  channelCount: 1,
-                  echoCancellation: true,
-                  noiseSuppression: true,
-                  autoGainControl: true,
-                },
-                video: {
-                  deviceId: videoId ? { exact: videoId } : undefined,
-                  width: { ideal: 1280 },
-                  height: { ideal: 720 }
-                }
-              });
-
-              if (videoRef.current) {
-                videoRef.current.srcObject = stream;
-                videoRef.current.play();
-              }
-
-              // Audio Input Processing
-              const source = inputContextRef.current!.createMediaStreamSource(stream);
-              const processor = inputContextRef.current!.createScriptProcessor(4096, 1, 1);
-              processor.onaudioprocess = (e) => {
-                if (!isStreamingRef.current) return;
-                const data = e.inputBuffer.getChannelData(0);
-                const blob = createPcmBlob(data);
-                sessionPromise.then(s => s.sendRealtimeInput({ media: blob }));
-              };
-              source.connect(processor);
-              processor.connect(inputContextRef.current!.destination);
-
-              // Video Input Processing
-              startVideoStreaming(sessionPromise);
-
-            } catch (err) {
-              addLog(`传感器挂载失败: ${err}`, "SYSTEM", "error");
-              disconnect();
-            }
-          },
-          onmessage: async (msg: LiveServerMessage) => {
-            if (connectionAttemptIdRef.current !== attemptId) return;
-            
-            // Audio
-            const audioData = msg.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
-            if (audioData && audioContextRef.current && analyserRef.current) {
-               // We connect temporary sources to the main context's destination via analyser
-               // Re-accessing context to be safe
-               playAudioResponse(audioData, audioContextRef.current); 
-            }
+        onmessage: async (msg: LiveServerMessage) => {
+          // Until its setup completes, a handover link leaves the old one in charge
+          if (isPendingHandover()) {
+            if (!msg.setupComplete) return;
+            handoverRef.current = null;
+            sessionRef.current = sessionPromise;
+          }
+          if (!isCurrent()) return;
 
-            // AR & Text
-            const parts = msg.serverContent?.modelTurn?.parts;
-            if (parts) parts.forEach(p => p.text && parseARObjects(p.text));
+          // The link only counts as live once the server has accepted the setup
+          if (msg.setupComplete) {
+            const resumed = handover || connectionRef.current.status === 'reconnecting';
+            dispatchConnection({ type: 'OPENED' });
+            addLog(resumed ? "链路已恢复，会话继续。" : "系统在线。链路稳定。", "SYSTEM", "success");
+            // Audio still queued from the old link keeps playing; only a fresh start resets the clock
+            if (!handover) nextStartTimeRef.current = 0;
+            // A link replaced after goAway may still be open; retire it now that this one works
+            previous?.then(s => s.close()).catch(() => {});
+            if (!cameraStreamRef.current) await startMedia();
+            frameSchedulerRef.current?.forceNext();
+          }
 
-            // Tool Calls
-            if (msg.toolCall) {
-              handleToolCalls(msg.toolCall, sessionPromise);
-            }
-            
-            // Interruption
-            if (msg.serverContent?.interrupted) {
-              addLog("用户打断", "JARVIS", "warning");
-              stopAllAudio();
+          const resumption = msg.sessionResumptionUpdate;
+          if (resumption?.resumable && resumption.newHandle) resumeHandleRef.current = resumption.newHandle;
+
+          // This link keeps streaming and answering until the replacement is set up
+          if (msg.goAway && !handoverRef.current && isLive()) {
+            addLog(`服务器将在 ${msg.goAway.timeLeft || '稍后'} 断开，正在续接会话...`, "SYSTEM", "warning");
+            diagnosticsRef.current?.reconnected('goAway');
+            connect(true);
+          }
+
+          // Audio
+          const audioData = msg.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
+          if (audioData && audioContextRef.current && analyserRef.current) {
+             // We connect temporary sources to the main context's destination via analyser
+             // Re-accessing context to be safe
+             playAudioResponse(audioData, audioContextRef.current); 
+          }
+
+          // Transcription
+          const inputText = msg.serverContent?.inputTranscription?.text;
+          if (inputText) {
+            appendTranscript('USER', inputText);
+            frameSchedulerRef.current?.boost();
+            if (isVisualQuestion(transcriptRef.current.USER?.text || inputText)) {
+              frameSchedulerRef.current?.boost(VISUAL_QUESTION_BOOST_MS);
+              frameSchedulerRef.current?.forceNext();
             }
-          },
-          onclose: (e) => {
-             if (connectionAttemptIdRef.current !== attemptId) return;
-             console.log("Session closed", e);
-             
-             if (!isUserDisconnectingRef.current) {
-               addLog("链路波动，正在重新校准...", "SYSTEM", "warning");
-               // Silent cleanup
-               isStreamingRef.current = false; 
-               if (frameIntervalRef.current) clearInterval(frameIntervalRef.current);
-               
-               // Retry shortly
-               if (reconnectTimeoutRef.current) clearTimeout(reconnectTimeoutRef.current);
-               reconnectTimeoutRef.current = setTimeout(() => {
-                 connect(activeAudioIdRef.current, activeVideoIdRef.current);
-               }, 1500);
-             } else {
-               addLog("会话已正常结束。", "SYSTEM", "info");
-               cleanup();
-             }
-          },
-          onerror: (err) => {
-            console.error(err);
-            // Don't disconnect immediately on error, let onclose handle it or retry
           }
-        }
-      });
-      sessionRef.current = sessionPromise;
+          if (msg.serverContent?.inputTranscription?.finished) finalizeTranscript('USER');
 
-    } catch (err) {
-      addLog(`连接失败: ${err}`, "SYSTEM", "error");
-      setIsConnecting(false);
-    }
+          const outputText = msg.serverContent?.outputTranscription?.text;
+          if (outputText) {
+            // Jarvis answering means the user's turn is over
+            finalizeTranscript('USER');
+            appendTranscript('JARVIS', outputText);
+          }
+
+          const parts = msg.serverContent?.modelTurn?.parts;
+          if (parts) parts.forEach(p => {
+            if (p.text) rememberConversation(p.text);
+          });
+
+          // Surface memories relevant to what was just discussed
+          if (msg.serverContent?.turnComplete) {
+            finalizeTranscript('USER');
+            finalizeTranscript('JARVIS');
+            injectRelevantMemories(sessionPromise);
+          }
+
+          // Tool Calls
+          if (msg.toolCall) {
+            handleToolCalls(msg.toolCall, sessionPromise);
+          }
+          
+          // Interruption
+          if (msg.serverContent?.interrupted) {
+            finalizeTranscript('JARVIS');
+            addLog("用户打断", "JARVIS", "warning");
+            diagnosticsRef.current?.interrupted();
+            stopAllAudio();
+          }
+        },
+        onclose: (e: CloseEvent) => {
+          if (!isCurrent() && !isPendingHandover()) return;
+          console.log("Session closed", e);
+          loseLink(e.reason || `code ${e.code}`);
+        },
+        onerror: (e: ErrorEvent) => {
+          if (!isCurrent() && !isPendingHandover()) return;
+          console.error(e);
+          addLog(`链路错误: ${e.message || '未知错误'}`, "SYSTEM", "warning");
+        }
+      }
+    });
+    if (handover) handoverRef.current = sessionPromise;
+    else sessionRef.current = sessionPromise;
+    sessionPromise.catch(err => loseLink(`${err}`));
   };
 
-  const startVideoStreaming = (sessionPromise: Promise<any>) => {
+  const startVideoStreaming = () => {
     if (frameIntervalRef.current) clearInterval(frameIntervalRef.current);
+    const settings = videoSettingsRef.current;
+    if (!frameSchedulerRef.current) frameSchedulerRef.current = createFrameScheduler(settings);
+    const scheduler = frameSchedulerRef.current;
+    scheduler.forceNext();
+
+    let lastStatsAt = 0;
     frameIntervalRef.current = window.setInterval(() => {
-      if (!videoRef.current || !canvasRef.current || !isStreamingRef.current) return;
-      const ctx = canvasRef.current.getContext('2d');
-      if (ctx && videoRef.current.videoWidth > 0) {
-        canvasRef.current.width = videoRef.current.videoWidth;
-        canvasRef.current.height = videoRef.current.videoHeight;
-        ctx.drawImage(videoRef.current, 0, 0);
-        canvasRef.current.toBlob(async (blob) => {
-          if (blob) {
-             const b64 = await blobToBase64(blob);
-             sessionPromise.then(s => s.sendRealtimeInput({ media: { data: b64, mimeType: 'image/jpeg' } }));
-          }
-        }, 'image/jpeg', 0.5);
+      const now = Date.now();
+      if (now - lastStatsAt >= 1000) {
+        lastStatsAt = now;
+        setFrameStats(scheduler.stats());
       }
-    }, 1000 / FRAME_RATE);
+
+      const video = videoRef.current;
+      const canvas = canvasRef.current;
+      if (!video || !canvas || !isLive() || video.videoWidth === 0) return;
+      if (!scheduler.due(now)) return;
+
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return;
+      const { width, height } = scheduler.fit(video.videoWidth, video.videoHeight);
+      canvas.width = width;
+      canvas.height = height;
+      drawVisionFrame(ctx, video, visionSourceRef.current === 'pip' ? pipVideoRef.current : null, width, height);
+
+      // Only changed scenes (or forced/keep-alive frames) go out
+      if (!scheduler.consider(canvas, now)) return;
+      canvas.toBlob(async (blob) => {
+        if (blob) {
+           const b64 = await blobToBase64(blob);
+           scheduler.recordSent(blob.size);
+           diagnosticsRef.current?.frameSent(blob.size);
+           sessionRef.current?.then(s => s.sendRealtimeInput({ media: { data: b64, mimeType: 'image/jpeg' } }));
+        }
+      }, 'image/jpeg', settings.jpegQuality);
+    }, scheduler.tickMs);
   };
 
-  const handleToolCalls = async (toolCall: any, sessionPromise: Promise<any>) => {
-    for (const fc of toolCall.functionCalls) {
-      addLog(`调用协议: ${fc.name}`, "TOOL", "info");
-      let result = { result: "OK" };
-      if (fc.name === 'setReminder') result = { result: `已设提醒: ${fc.args.task}` };
-      if (fc.name === 'toggleSmartHome') result = { result: `${fc.args.device} 已 ${fc.args.action}` };
-      if (fc.name === 'saveToLongTermMemory') {
-        MemoryService.save(fc.args.key, fc.args.value);
-        setMemories(MemoryService.load());
-        result = { result: "已归档" };
+  // --- Vision Sources ---
+  // Points the preview (and the inset in picture-in-picture) at the right stream. Frames are
+  // captured from these elements, so switching never touches the live session.
+  const attachVisionSource = (source: VisionSource) => {
+    const attach = (el: HTMLVideoElement | null, stream: MediaStream | null) => {
+      if (!el || el.srcObject === stream) return;
+      el.srcObject = stream;
+      if (stream) el.play().catch(e => console.warn(e));
+    };
+    const screen = source === 'camera' ? null : screenStreamRef.current;
+    attach(videoRef.current, screen || cameraStreamRef.current);
+    attach(pipVideoRef.current, source === 'pip' ? cameraStreamRef.current : null);
+  };
+
+  const stopScreenShare = () => {
+    screenStreamRef.current?.getTracks().forEach(t => t.stop());
+    screenStreamRef.current = null;
+  };
+
+  const applyVisionSource = (source: VisionSource) => {
+    visionSourceRef.current = source;
+    setVisionSource(source);
+    attachVisionSource(source);
+    // Boxes and IDs refer to the previous view
+    trackerRef.current.clear();
+    setOverlayMenu(null);
+    frameSchedulerRef.current?.forceNext();
+    addLog(`视觉源: ${VISION_SOURCE_LABELS[source]}`, "SYSTEM", "info");
+    if (sessionRef.current && isLive()) {
+      sessionRef.current.then(s => s.sendClientContent({
+        turns: [{ role: 'user', parts: [{ text: `[视觉源已切换为${VISION_SOURCE_LABELS[source]}，无需回应]` }] }],
+        turnComplete: false
+      }));
+    }
+  };
+
+  const switchVisionSource = async (next: VisionSource) => {
+    if (next === visionSourceRef.current) return;
+    if (next === 'camera') {
+      stopScreenShare();
+      applyVisionSource(next);
+      return;
+    }
+    if (!screenStreamRef.current) {
+      if (!supportsScreenShare()) {
+        addLog("浏览器不支持屏幕共享。", "SYSTEM", "error");
+        return;
       }
+      try {
+        const stream = await startScreenShare();
+        screenStreamRef.current = stream;
+        // Sharing can also be stopped from the browser's own controls
+        stream.getVideoTracks()[0]?.addEventListener('ended', () => {
+          if (screenStreamRef.current !== stream) return;
+          screenStreamRef.current = null;
+          addLog("屏幕共享已结束。", "SYSTEM", "info");
+          applyVisionSource('camera');
+        });
+      } catch (e) {
+        addLog(`屏幕共享未开始: ${e}`, "SYSTEM", "warning");
+        return;
+      }
+    }
+    applyVisionSource(next);
+  };
+
+  // One-off still image (dropped or pasted), sent alongside the live video
+  const shareImage = async (file: File) => {
+    if (!isSupportedImage(file)) {
+      addLog(`不支持的文件类型: ${file.type || file.name}`, "SYSTEM", "warning");
+      return;
+    }
+    if (!sessionRef.current || !isLive()) {
+      addLog("未连接，无法发送图片。", "SYSTEM", "warning");
+      return;
+    }
+    try {
+      const { blob, width, height } = await encodeImageFile(file);
+      const data = await blobToBase64(blob);
+      sessionRef.current.then(s => s.sendClientContent({
+        turns: [{ role: 'user', parts: [{ inlineData: { mimeType: 'image/jpeg', data } }, { text: '（用户分享了一张图片，请结合接下来的问题查看）' }] }],
+        turnComplete: false
+      }));
+      addLog(`已发送图片: ${file.name || '剪贴板'} (${width}×${height})`, "USER", "info");
+    } catch (e) {
+      addLog(`图片发送失败: ${e}`, "SYSTEM", "error");
+    }
+  };
+
+  const handleFileDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDraggingFile(false);
+    Array.from(e.dataTransfer.files).forEach(shareImage);
+  };
+
+  // Pasting an image anywhere shares it; text pastes are left alone
+  useEffect(() => {
+    const onPaste = (e: ClipboardEvent) => {
+      const images = Array.from(e.clipboardData?.files || []).filter(isSupportedImage);
+      if (images.length === 0) return;
+      e.preventDefault();
+      images.forEach(shareImage);
+    };
+    window.addEventListener('paste', onPaste);
+    return () => window.removeEventListener('paste', onPaste);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  // --- Input Modes ---
+  const applyInputMode = async (settings: InputSettings) => {
+    const generation = ++inputModeGenerationRef.current;
+    wakeListenerRef.current?.stop();
+    wakeListenerRef.current = null;
+
+    const onOpenChange = (open: boolean) => {
+      setMicOpen(open);
+      if (open) frameSchedulerRef.current?.boost();
+      // Tell the server the utterance is over so it doesn't wait for more audio
+      if (!open && isLive() && sessionRef.current) {
+        sessionRef.current.then(s => s.sendRealtimeInput({ audioStreamEnd: true }));
+      }
+    };
+    const installGate = (mode: InputMode, backend?: WakeWordBackend) => {
+      const gate = createInputGate(mode, onOpenChange);
+      inputGateRef.current = gate;
+      setMicOpen(mode === 'always');
+      setActiveInput({ mode, backend });
+      return gate;
+    };
+
+    // A wake gate stays closed until woken, so the mic is muted while the recognizer is chosen
+    const gate = installGate(settings.mode);
+    if (settings.mode !== 'wake') return;
+
+    const backend = await detectWakeWordBackend();
+    if (generation !== inputModeGenerationRef.current) return;
+    if (!backend) {
+      addLog("浏览器不支持语音识别，唤醒词模式改用语音检测。", "SYSTEM", "warning");
+      installGate('vad');
+      return;
+    }
+    if (backend === 'cloud' && !settings.wakeAllowCloud) {
+      addLog("本地唤醒词识别不可用，且未允许云端识别，改用语音检测。", "SYSTEM", "warning");
+      installGate('vad');
+      return;
+    }
+
+    wakeListenerRef.current = startWakeWordListener(settings.wakePhrase, () => {
+      addLog(`唤醒词已识别: ${settings.wakePhrase}`, "SYSTEM", "info");
+      gate.wake();
+    }, backend);
+    setActiveInput({ mode: 'wake', backend });
+    if (backend === 'cloud') addLog("唤醒词使用云端语音识别：等待唤醒期间麦克风音频会发送到浏览器的语音服务。", "SYSTEM", "warning");
+  };
+
+  const changeInputSettings = (requested: InputSettings) => {
+    const next = InputSettingsService.save(requested);
+    const modeChanged = next.mode !== inputSettings.mode;
+    // Re-applying restarts the recognizer and closes the gate, so only do it when something it uses changed
+    const wakeChanged = next.mode === 'wake' &&
+      (next.wakePhrase !== inputSettings.wakePhrase || next.wakeAllowCloud !== inputSettings.wakeAllowCloud);
+    setInputSettings(next);
+    if (isConnected && (modeChanged || wakeChanged)) applyInputMode(next);
+    if (modeChanged) addLog(`输入模式: ${INPUT_MODE_LABELS[next.mode]}`, "SYSTEM", "info");
+  };
+
+  // Push-to-talk on the space bar, unless the user is typing somewhere
+  useEffect(() => {
+    if (inputSettings.mode !== 'ptt') return;
+    const isTyping = (e: KeyboardEvent) => {
+      const el = e.target as HTMLElement;
+      return el.tagName === 'INPUT' || el.tagName === 'TEXTAREA' || el.tagName === 'SELECT' || el.isContentEditable;
+    };
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== 'Space' || e.repeat || isTyping(e)) return;
+      e.preventDefault();
+      inputGateRef.current?.setPushToTalk(true);
+    };
+    const onKeyUp = (e: KeyboardEvent) => {
+      if (e.code !== 'Space' || isTyping(e)) return;
+      inputGateRef.current?.setPushToTalk(false);
+    };
+    window.addEventListener('keydown', onKeyDown);
+    window.addEventListener('keyup', onKeyUp);
+    return () => {
+      window.removeEventListener('keydown', onKeyDown);
+      window.removeEventListener('keyup', onKeyUp);
+    };
+  }, [inputSettings.mode]);
+
+  const rememberConversation = (text: string) => {
+    conversationRef.current = [...conversationRef.current, text].slice(-CONVERSATION_WINDOW);
+  };
+
+  // Streams partial transcription into a single log entry per speaker turn
+  const appendTranscript = (speaker: 'USER' | 'JARVIS', text: string) => {
+    const open = transcriptRef.current[speaker];
+    if (!open) {
+      const logId = addLog(text, speaker, 'info', true);
+      transcriptRef.current[speaker] = { logId, text };
+      return;
+    }
+    open.text += text;
+    const message = open.text;
+    logBufferRef.current.update(open.logId, { message });
+    setLogs(logBufferRef.current.toArray());
+  };
+
+  // Closes the speaker's open entry. Every closed spoken utterance is checked against a pending
+  // confirmation; partial transcripts never are, and typed turns pass `spoken = false`.
+  const finalizeTranscript = (speaker: 'USER' | 'JARVIS', spoken = true) => {
+    const open = transcriptRef.current[speaker];
+    if (!open) return;
+    transcriptRef.current[speaker] = null;
+    const message = open.text.trim();
+    logBufferRef.current.update(open.logId, { message, partial: false });
+    setLogs(logBufferRef.current.toArray());
+    if (!message) return;
+    if (speaker === 'USER' && spoken) hearConfirmation(open.logId, message);
+    rememberConversation(message);
+    recordEvent({ kind: 'transcript', source: speaker, message });
+    const record = sessionRecordRef.current;
+    if (speaker === 'USER' && record && record.title === UNTITLED_SESSION) record.title = message.slice(0, 40);
+  };
+
+  // Typed turns go through the transcript path so they're logged and archived like speech
+  const sendText = (text: string) => {
+    if (!sessionRef.current || !isLive()) return;
+    finalizeTranscript('USER');
+    appendTranscript('USER', text);
+    finalizeTranscript('USER', false);
+    if (isVisualQuestion(text)) frameSchedulerRef.current?.forceNext();
+    diagnosticsRef.current?.userActivity();
+    sessionRef.current.then(s => s.sendClientContent({
+      turns: [{ role: 'user', parts: [{ text }] }],
+      turnComplete: true
+    }));
+  };
+
+  // Memories are only partially loaded at connect; top up the live context with
+  // whatever is relevant now and hasn't been sent this session.
+  const pushMemoriesToSession = (items: MemoryItem[], sessionPromise: Promise<LiveLink> | null = sessionRef.current) => {
+    if (items.length === 0 || !sessionPromise || !isLive()) return;
+    items.forEach(m => injectedMemoryKeysRef.current.add(m.key));
+    sessionPromise.then(s => s.sendClientContent({
+      turns: [{ role: 'user', parts: [{ text: `[记忆补充，无需回应]\n${MemoryRetrieval.format(items)}` }] }],
+      turnComplete: false
+    }));
+  };
+
+  const injectRelevantMemories = async (sessionPromise: Promise<LiveLink>) => {
+    const conversation = conversationRef.current.join('\n');
+    if (!conversation) return;
+    try {
+      const items = await MemoryRetrieval.selectForContext(conversation, MID_SESSION_MEMORY_BUDGET, injectedMemoryKeysRef.current);
+      pushMemoriesToSession(items, sessionPromise);
+    } catch (e) {
+      console.error(e);
+    }
+  };
+
+  const refreshMemories = async () => setMemories(await MemoryService.load());
+
+  const handleToolCalls = async (toolCall: LiveServerToolCall, sessionPromise: Promise<LiveLink>) => {
+    for (const fc of toolCall.functionCalls || []) {
+      // Each call's own round trip, from starting it to its response going out, minus any wait for the user
+      const startedAt = performance.now();
+      let authWaitMs = 0;
+      addLog(`调用协议: ${fc.name}`, "TOOL", "info");
+      rememberConversation(Object.values(fc.args || {}).join(' '));
+      const result = await toolRegistryRef.current.execute(fc.name, fc.args, { onAuthorized: waitMs => { authWaitMs = waitMs; } });
+      const error = result.error as ToolError | undefined;
+      if (error) addLog(`协议执行失败 ${fc.name}: [${error.code}] ${error.message}`, "TOOL", "error");
+      recordEvent({ kind: 'tool', source: 'TOOL', message: fc.name, data: { args: fc.args, result } });
       sessionPromise.then(s => s.sendToolResponse({ functionResponses: { id: fc.id, name: fc.name, response: result } }));
+      diagnosticsRef.current?.toolCompleted(fc.name, performance.now() - startedAt - authWaitMs, !error, authWaitMs);
     }
   };
 
-  const parseARObjects = (text: string) => {
-    const regex = /\[OBJECT:(.*?):(\d+),(\d+),(\d+),(\d+)\]/g;
-    let match;
-    const newOverlays: AROverlayData[] = [];
-    while ((match = regex.exec(text)) !== null) {
-      newOverlays.push({
-        id: Math.random().toString(36),
-        label: match[1],
-        box: [parseInt(match[2]), parseInt(match[3]), parseInt(match[4]), parseInt(match[5])],
-        color: '#22d3ee',
-        timestamp: Date.now()
+  // Feeds model-reported boxes into the tracker; invalid entries are reported back rather than drawn
+  const reportDetections = (raw: unknown[]): ToolResult => {
+    const valid: Detection[] = [];
+    const rejected: string[] = [];
+    raw.forEach(item => {
+      const checked = validateDetection(item);
+      if (typeof checked === 'string') rejected.push(checked);
+      else valid.push(checked);
+    });
+
+    const tracked = trackerRef.current.update(valid);
+    if (tracked.length > 0) {
+      recordEvent({
+        kind: 'detection',
+        source: 'JARVIS',
+        message: tracked.map(o => o.label).join(', '),
+        data: tracked.map(o => ({ trackId: o.trackId, label: o.label, box: o.box, confidence: o.confidence }))
       });
     }
-    if (newOverlays.length > 0) setArOverlays(prev => [...prev, ...newOverlays]);
+    return {
+      tracked: tracked.map(o => ({ trackId: o.trackId, label: o.label })),
+      ...(rejected.length > 0 ? { rejected } : {})
+    };
+  };
+
+  // Handlers only touch refs and state setters, so the first render's closures stay valid
+  useEffect(() => {
+    const unregister = createBuiltinTools({
+      sessionId: () => sessionIdRef.current,
+      onRemindersChanged: () => setReminders(ReminderService.listActive()),
+      onDevicesChanged: () => setDevices(DeviceRegistry.load()),
+      onMemoriesChanged: refreshMemories,
+      markMemoriesSeen: keys => keys.forEach(key => injectedMemoryKeysRef.current.add(key)),
+      reportDetections,
+      log: (message, type) => addLog(message, "TOOL", type),
+    }).map(tool => toolRegistryRef.current.register(tool));
+    toolRegistryRef.current.setAuthorizer(authorizeTool);
+    return () => {
+      unregister.forEach(fn => fn());
+      toolRegistryRef.current.setAuthorizer(null);
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  // --- Sensitive Tool Confirmation ---
+  // Sensitive calls wait for the user, one prompt at a time in the order they arrived
+  const authorizeTool = (name: string, args: ToolArgs): Promise<ToolError | null> => {
+    const rule = findSensitiveRule(name, args);
+    if (!rule) return Promise.resolve(null);
+    const decision = confirmationQueueRef.current.then(() => askForConfirmation(name, args, rule));
+    confirmationQueueRef.current = decision;
+    return decision;
+  };
+
+  const askForConfirmation = (tool: string, args: ToolArgs, rule: SensitiveRule) => new Promise<ToolError | null>(resolve => {
+    const { reason } = rule;
+    const request: ConfirmationRequest = {
+      id: Math.random().toString(36).slice(2, 9),
+      tool,
+      args,
+      reason,
+      expiresAt: Date.now() + CONFIRMATION_TIMEOUT_MS,
+      // Without echo cancellation the mic hears Jarvis asking, so speech may only refuse
+      voiceApproval: rule.voiceApproval && sessionSettingsRef.current.echoCancellation,
+    };
+
+    const settle = (outcome: ConfirmationOutcome, via: AuditEntry['via']) => {
+      if (confirmationRef.current?.request !== request) return;
+      window.clearTimeout(timer);
+      confirmationRef.current = null;
+      setConfirmation(null);
+      AuditLogService.record({ sessionId: sessionIdRef.current, tool, args, reason, outcome, via });
+      addLog(`敏感操作${CONFIRMATION_OUTCOME_LABELS[outcome]}: ${reason}`, "TOOL", outcome === 'approved' ? 'success' : 'warning');
+      resolve(outcome === 'approved' ? null : refusalFor(outcome, reason));
+    };
+
+    const timer = window.setTimeout(() => settle('timeout', 'system'), CONFIRMATION_TIMEOUT_MS);
+    confirmationRef.current = { request, earlierLogId: transcriptRef.current.USER?.logId, settle };
+    // Calls queued behind a prompt can come due after the session has ended
+    if (connectionRef.current.status === 'idle') {
+      settle('cancelled', 'system');
+      return;
+    }
+    setConfirmation(request);
+    addLog(`等待确认: ${reason}（${request.voiceApproval ? '说“确认”或“取消”' : '请在屏幕上批准，语音只能取消'}）`, "TOOL", "warning");
+  });
+
+  // Only utterances begun after the prompt appeared count, so the request itself can't approve it
+  const hearConfirmation = (logId: string, utterance: string) => {
+    const pending = confirmationRef.current;
+    if (!pending || logId === pending.earlierLogId) return;
+    const approved = parseSpokenConfirmation(utterance);
+    if (approved === false) pending.settle('denied', 'voice');
+    else if (approved && pending.request.voiceApproval) pending.settle('approved', 'voice');
+  };
+
+  // --- Interactive AR ---
+  // Asks about part of the frame by sending just that crop alongside the question
+  const askAboutRegion = async (box: AROverlayData['box'], prompt: string) => {
+    const video = videoRef.current;
+    if (!video?.videoWidth || !sessionRef.current || !isLive()) {
+      addLog("未连接，无法询问画面内容。", "SYSTEM", "warning");
+      return;
+    }
+    try {
+      const data = await blobToBase64(await cropFrame(video, box));
+      addLog(prompt, "USER", "info");
+      rememberConversation(prompt);
+      sessionRef.current.then(s => s.sendClientContent({
+        turns: [{ role: 'user', parts: [{ inlineData: { mimeType: 'image/jpeg', data } }, { text: prompt }] }],
+        turnComplete: true
+      }));
+    } catch (e) {
+      addLog(`画面截取失败: ${e}`, "SYSTEM", "error");
+    }
+  };
+
+  const framePoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = e.currentTarget;
+    return pointToFrame(e.nativeEvent.offsetX, e.nativeEvent.offsetY, contentRect(videoRef.current!, canvas.width, canvas.height));
+  };
+
+  const handleOverlayPointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (e.button !== 0) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    selectionRef.current = { start: framePoint(e), box: null };
+    setOverlayMenu(null);
+  };
+
+  const handleOverlayPointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const selection = selectionRef.current;
+    if (!selection) return;
+    const p = framePoint(e);
+    const { start } = selection;
+    selection.box = [Math.min(start.y, p.y), Math.min(start.x, p.x), Math.max(start.y, p.y), Math.max(start.x, p.x)];
+  };
+
+  const handleOverlayPointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const selection = selectionRef.current;
+    selectionRef.current = null;
+    if (!selection) return;
+    const box = selection.box;
+    // Anything bigger than a jittery click counts as a hand-drawn box
+    if (box && box[2] - box[0] > MIN_SELECTION_SIZE && box[3] - box[1] > MIN_SELECTION_SIZE) {
+      askAboutRegion(box, "这是什么？");
+      return;
+    }
+    const hit = overlayAt(trackerRef.current.current(), selection.start.x, selection.start.y);
+    setOverlayMenu(hit ? { overlay: hit, left: e.nativeEvent.offsetX, top: e.nativeEvent.offsetY } : null);
+  };
+
+  const togglePin = (overlay: AROverlayData) => {
+    const updated = trackerRef.current.pin(overlay.trackId, !overlay.pinned);
+    if (updated) addLog(`${updated.pinned ? '已固定' : '已取消固定'}: ${updated.label}`, "SYSTEM", "info");
+    setOverlayMenu(null);
+  };
+
+  const takeSnapshot = async () => {
+    const video = videoRef.current;
+    if (!video?.videoWidth) return;
+    try {
+      const overlays = trackerRef.current.current();
+      const { image, width, height } = await renderSnapshot(video, overlays);
+      await SnapshotService.save(image, overlays.map(o => o.label), width, height);
+      addLog(`快照已保存${overlays.length > 0 ? `，含 ${overlays.length} 个标注` : ''}。`, "SYSTEM", "success");
+    } catch (e) {
+      addLog(`快照保存失败: ${e}`, "SYSTEM", "error");
+    }
+  };
+
+  // --- Recording ---
+  const startRecording = () => {
+    if (recorderRef.current) return;
+    recorderRef.current = createSessionRecorder();
+    setRecordingSince(Date.now());
+    addLog("开始录制会话音频。", "SYSTEM", "info");
+  };
+
+  // Exports whatever was captured; runs on manual stop and when the session ends
+  const stopRecording = (reason = "录音已停止。") => {
+    const recorder = recorderRef.current;
+    if (!recorder) return;
+    recorderRef.current = null;
+    setRecordingSince(null);
+    if (recorder.durationMs() <= 0) {
+      addLog("录音为空，未导出。", "SYSTEM", "warning");
+      return;
+    }
+    const name = `jarvis-recording_${fileTimestamp()}`;
+    const files = recorder.export(SessionSettingsService.load().recordingLayout);
+    files.forEach(f => downloadBlob(f.blob, `${name}${f.suffix}.wav`));
+    addLog(`${reason}已导出 ${files.length} 个 WAV 文件 (${(recorder.durationMs() / 1000).toFixed(1)} 秒)。`, "SYSTEM", "success");
   };
 
   const playAudioResponse = async (base64Data: string, ctx: AudioContext) => {
     try {
       const decoded = decode(base64Data);
+      diagnosticsRef.current?.audioReceived(decoded.byteLength);
       // Ensure sync
       nextStartTimeRef.current = Math.max(nextStartTimeRef.current, ctx.currentTime);
       const buffer = await decodeAudioData(decoded, ctx, SAMPLE_RATE_OUT, 1);
+      recorderRef.current?.add(
+        'output',
+        new Int16Array(decoded.buffer, decoded.byteOffset, decoded.byteLength / 2),
+        SAMPLE_RATE_OUT,
+        performance.now() + Math.max(0, nextStartTimeRef.current - ctx.currentTime) * 1000
+      );
       const source = ctx.createBufferSource();
       source.buffer = buffer;
       // Connect to analyser which is connected to destination
@@ -459,32 +1216,182 @@ export default function App() {
     }
   };
 
+  // How much reply audio is scheduled but not yet played
+  const playbackQueueMs = () => {
+    const ctx = audioContextRef.current;
+    return ctx ? Math.max(0, (nextStartTimeRef.current - ctx.currentTime) * 1000) : 0;
+  };
+
+  const changeLogCapacity = (capacity: number) => {
+    logBufferRef.current.resize(capacity);
+    LogSettingsService.saveCapacity(capacity);
+    setLogCapacity(capacity);
+    setLogs(logBufferRef.current.toArray());
+  };
+
+  const exportDiagnostics = () => {
+    const collector = diagnosticsRef.current;
+    if (!collector) return;
+    downloadText(JSON.stringify(collector.report(sessionIdRef.current), null, 2), `jarvis-metrics_${fileTimestamp()}.json`, 'application/json');
+  };
+
   const stopAllAudio = () => {
+    // Audio queued past this point never played, so it shouldn't be in the recording either
+    recorderRef.current?.truncate('output', performance.now());
     sourcesRef.current.forEach(s => { try{s.stop()}catch(_){} });
     sourcesRef.current.clear();
     nextStartTimeRef.current = 0; // Reset sync
   };
 
   const cleanup = () => {
-    isStreamingRef.current = false;
-    setIsConnected(false);
-    setIsConnecting(false);
+    confirmationRef.current?.settle('cancelled', 'system');
+    stopRecording("会话结束，录音已停止。");
+    finalizeTranscript('USER');
+    finalizeTranscript('JARVIS');
     if (frameIntervalRef.current) clearInterval(frameIntervalRef.current);
+    frameIntervalRef.current = null;
+    captureRef.current?.stop();
+    captureRef.current = null;
+    inputModeGenerationRef.current++;
+    wakeListenerRef.current?.stop();
+    wakeListenerRef.current = null;
+    setMicOpen(false);
+    setActiveInput(null);
     
-    if (videoRef.current && videoRef.current.srcObject) {
-       (videoRef.current.srcObject as MediaStream).getTracks().forEach(t => t.stop());
-       videoRef.current.srcObject = null;
-    }
-    if (audioContextRef.current) audioContextRef.current.close();
-    if (inputContextRef.current) inputContextRef.current.close();
-    setArOverlays([]);
+    cameraStreamRef.current?.getTracks().forEach(t => t.stop());
+    cameraStreamRef.current = null;
+    stopScreenShare();
+    visionSourceRef.current = 'camera';
+    setVisionSource('camera');
+    if (videoRef.current) videoRef.current.srcObject = null;
+    if (pipVideoRef.current) pipVideoRef.current.srcObject = null;
+    stopAllAudio();
+    audioContextRef.current?.close();
+    inputContextRef.current?.close();
+    audioContextRef.current = null;
+    inputContextRef.current = null;
+    // The analysers belong to the closed contexts; the next session builds fresh ones
+    analyserRef.current = null;
+    inputAnalyserRef.current = null;
+    trackerRef.current.clear();
+    selectionRef.current = null;
+    setOverlayMenu(null);
   };
 
   const disconnect = () => {
-    isUserDisconnectingRef.current = true;
-    if (reconnectTimeoutRef.current) clearTimeout(reconnectTimeoutRef.current);
+    clearReconnectTimer();
+    dispatchConnection({ type: 'DISCONNECT' });
+    const links = [sessionRef.current, handoverRef.current];
+    sessionRef.current = null;
+    handoverRef.current = null;
+    links.forEach(link => link?.then(s => s.close()).catch(() => {}));
+    resumeHandleRef.current = null;
     cleanup();
     addLog("系统脱离。", "SYSTEM", "warning");
+    endSessionRecord();
+  };
+
+  const endSessionRecord = () => {
+    const record = sessionRecordRef.current;
+    if (!record) return;
+    record.endedAt = Date.now();
+    persistSession();
+    sessionRecordRef.current = null;
+    HistoryService.applyRetention().catch(e => addLog(`历史清理失败: ${e}`, "SYSTEM", "error"));
+  };
+
+  const snoozeReminder = (id: string, minutes: number) => {
+    const reminder = ReminderService.snooze(id, minutes);
+    if (reminder) addLog(`提醒已延后 ${minutes} 分钟: ${reminder.task}`, "SYSTEM", "info");
+    setReminders(ReminderService.listActive());
+  };
+
+  const dismissReminder = (id: string) => {
+    ReminderService.dismiss(id);
+    setReminders(ReminderService.listActive());
+  };
+
+  const cancelReminder = (id: string) => {
+    const outcome = ReminderService.cancel(id);
+    if ('reminder' in outcome) addLog(`提醒已取消: ${outcome.reminder.task}`, "SYSTEM", "info");
+    else addLog(`取消提醒失败: ${outcome.error.message}`, "SYSTEM", "error");
+    setReminders(ReminderService.listActive());
+  };
+
+  const updateMemory = async (key: string, value: string) => {
+    try {
+      const updated = await MemoryService.update(key, value);
+      await refreshMemories();
+      addLog(`记忆已更新: ${key}`, "SYSTEM", "info");
+      if (updated) pushMemoriesToSession([updated]);
+    } catch (e) {
+      addLog(`记忆更新失败: ${e}`, "SYSTEM", "error");
+    }
+  };
+
+  const forgetMemory = async (key: string) => {
+    try {
+      await MemoryService.forget(key);
+      await refreshMemories();
+      addLog(`记忆已删除: ${key}`, "SYSTEM", "warning");
+    } catch (e) {
+      addLog(`记忆删除失败: ${e}`, "SYSTEM", "error");
+    }
+  };
+
+  const clearMemories = async () => {
+    try {
+      await MemoryService.clear();
+      setMemories([]);
+      addLog("长期记忆已清空。", "SYSTEM", "warning");
+    } catch (e) {
+      addLog(`记忆清空失败: ${e}`, "SYSTEM", "error");
+    }
+  };
+
+  const exportMemories = async (format: 'json' | 'markdown') => {
+    try {
+      if (format === 'json') {
+        downloadText(await MemoryBackupService.exportJson(), `jarvis-memory_${fileTimestamp()}.json`, 'application/json');
+      } else {
+        downloadText(await MemoryBackupService.exportMarkdown(), `jarvis-memory_${fileTimestamp()}.md`, 'text/markdown');
+      }
+      addLog(`长期记忆已导出 (${format === 'json' ? 'JSON' : 'Markdown'})。`, "SYSTEM", "success");
+    } catch (e) {
+      addLog(`记忆导出失败: ${e}`, "SYSTEM", "error");
+    }
+  };
+
+  const importMemories = async (file: File, strategy: MergeStrategy) => {
+    try {
+      const report = await MemoryBackupService.importJson(await file.text(), strategy);
+      await refreshMemories();
+      addLog(
+        `记忆导入完成: 写入 ${report.imported}，跳过 ${report.skipped}，重命名 ${report.renamed}，拒绝 ${report.rejected.length}。`,
+        "SYSTEM",
+        report.rejected.length > 0 ? "warning" : "success"
+      );
+      report.rejected.forEach(row => addLog(`导入拒绝 第 ${row.index + 1} 条: ${row.reason}`, "SYSTEM", "warning"));
+    } catch (e) {
+      addLog(`记忆导入失败 (${file.name}): ${e instanceof Error ? e.message : e}`, "SYSTEM", "error");
+    }
+  };
+
+  const saveSettings = (session: SessionSettings, video: VideoSettings) => {
+    SessionSettingsService.save(session);
+    VideoSettingsService.save(video);
+    setShowSettings(false);
+    addLog(`设置已保存${connection.status === 'idle' ? '' : '，将在下次连接时生效'}。`, "SYSTEM", "info");
+  };
+
+  const saveDeviceRegistry = (edited: SmartDevice[]) => {
+    // The panel doesn't edit state; keep whatever commands changed it to while it was open
+    const current = new Map(DeviceRegistry.load().map(d => [d.id, d.state]));
+    const next = edited.map(d => ({ ...d, state: current.get(d.id) ?? d.state }));
+    DeviceRegistry.saveAll(next);
+    setDevices(next);
+    setShowDeviceRegistry(false);
+    addLog(`设备注册表已更新 (${next.length} 台设备)${isConnected ? '，将在下次连接时生效' : ''}。`, "SYSTEM", "info");
   };
 
   const requestDeviceSelection = async () => {
@@ -500,6 +1407,12 @@ export default function App() {
   };
 
   // --- Render ---
+  const micModeLabel = !activeInput
+    ? INPUT_MODE_LABELS[inputSettings.mode]
+    : activeInput.mode !== inputSettings.mode
+      ? `${INPUT_MODE_LABELS[activeInput.mode]} (${INPUT_MODE_LABELS[inputSettings.mode]}不可用)`
+      : `${INPUT_MODE_LABELS[activeInput.mode]}${activeInput.backend ? ` · ${WAKE_BACKEND_LABELS[activeInput.backend]}` : ''}`;
+
   return (
     <div className="h-screen w-screen bg-slate-950 text-cyan-500 font-mono flex flex-col overflow-hidden relative">
       <DeviceSelector 
@@ -509,26 +1422,113 @@ export default function App() {
         audioDevices={audioDevices}
         videoDevices={videoDevices}
       />
+      <ToolConfirmDialog
+        request={confirmation}
+        onDecide={approved => confirmationRef.current?.settle(approved ? 'approved' : 'denied', 'dialog')}
+      />
+      <SnapshotGallery
+        isOpen={showGallery}
+        onClose={() => setShowGallery(false)}
+        onLog={(message, type) => addLog(message, "SYSTEM", type)}
+      />
+      <HistoryPanel
+        isOpen={showHistory}
+        onClose={() => setShowHistory(false)}
+        onLog={(message, type) => addLog(message, "SYSTEM", type)}
+      />
+      <AuditLogPanel
+        isOpen={showAudit}
+        onClose={() => setShowAudit(false)}
+        onLog={(message, type) => addLog(message, "SYSTEM", type)}
+      />
+      <DeviceRegistryPanel
+        isOpen={showDeviceRegistry}
+        devices={devices}
+        onClose={() => setShowDeviceRegistry(false)}
+        onSave={saveDeviceRegistry}
+      />
+      <SettingsPanel
+        isOpen={showSettings}
+        onClose={() => setShowSettings(false)}
+        onSave={saveSettings}
+      />
 
       {/* Header */}
       <div className="h-16 shrink-0 border-b border-cyan-900 bg-slate-900/50 flex justify-between items-center px-6 shadow-lg z-10">
         <div>
            <h1 className="text-2xl font-bold tracking-widest text-cyan-400 leading-none">JARVIS <span className="text-xs opacity-50">v2.1</span></h1>
-           <span className="text-[10px] text-slate-500 tracking-[0.2em]">NEURAL INTERFACE :: {isConnected ? 'ONLINE' : 'OFFLINE'}</span>
+           <span className="text-[10px] text-slate-500 tracking-[0.2em]">NEURAL INTERFACE :: {CONNECTION_STATUS_LABELS[connection.status]} :: MIC {micModeLabel}</span>
         </div>
+        <div className="flex items-center gap-3">
+        <InputModeControl
+          settings={inputSettings}
+          activeMode={activeInput?.mode ?? inputSettings.mode}
+          micOpen={micOpen}
+          isConnected={isConnected}
+          onChange={changeInputSettings}
+          onPushToTalk={(held) => inputGateRef.current?.setPushToTalk(held)}
+        />
+        <button
+          onClick={() => setShowHistory(true)}
+          className="px-4 py-2 rounded text-xs uppercase tracking-wider text-slate-400 border border-slate-700 hover:border-cyan-500 hover:text-cyan-400 transition-all"
+        >
+          档案
+        </button>
+        <button
+          onClick={() => setShowGallery(true)}
+          className="px-4 py-2 rounded text-xs uppercase tracking-wider text-slate-400 border border-slate-700 hover:border-cyan-500 hover:text-cyan-400 transition-all"
+        >
+          图库
+        </button>
+        <button
+          onClick={() => setShowAudit(true)}
+          className="px-4 py-2 rounded text-xs uppercase tracking-wider text-slate-400 border border-slate-700 hover:border-cyan-500 hover:text-cyan-400 transition-all"
+        >
+          审计
+        </button>
+        <button
+          onClick={() => setShowDeviceRegistry(true)}
+          className="px-4 py-2 rounded text-xs uppercase tracking-wider text-slate-400 border border-slate-700 hover:border-cyan-500 hover:text-cyan-400 transition-all"
+        >
+          设备 ({devices.length})
+        </button>
         <button
-          onClick={isConnected ? disconnect : requestDeviceSelection}
-          disabled={isConnecting}
+          onClick={() => setShowSettings(true)}
+          className="px-4 py-2 rounded text-xs uppercase tracking-wider text-slate-400 border border-slate-700 hover:border-cyan-500 hover:text-cyan-400 transition-all"
+        >
+          设置
+        </button>
+        {connection.status === 'failed' && (
+          <button
+            onClick={retryConnection}
+            title={connection.lastError}
+            className="px-6 py-2 rounded font-bold uppercase tracking-wider transition-all duration-300 bg-orange-900/20 text-orange-400 border border-orange-500 hover:bg-orange-900/40"
+          >
+            重试连接
+          </button>
+        )}
+        {/* Reconnecting and failed sessions can still be abandoned */}
+        <button
+          onClick={connection.status === 'idle' ? requestDeviceSelection : disconnect}
+          disabled={connection.status === 'connecting'}
+          title={connection.status === 'reconnecting' ? '取消重连并断开' : undefined}
           className={`px-6 py-2 rounded font-bold uppercase tracking-wider transition-all duration-300 ${
-            isConnected 
-              ? 'bg-red-900/20 text-red-500 border border-red-500 hover:bg-red-900/40' 
+            connection.status === 'idle'
+              ? 'bg-cyan-900/20 text-cyan-400 border border-cyan-500 hover:bg-cyan-900/40 animate-pulse'
               : isConnecting
-                ? 'bg-yellow-900/20 text-yellow-400 border border-yellow-500 cursor-wait'
-                : 'bg-cyan-900/20 text-cyan-400 border border-cyan-500 hover:bg-cyan-900/40 animate-pulse'
-          }`}
+                ? 'bg-yellow-900/20 text-yellow-400 border border-yellow-500 hover:bg-yellow-900/40'
+                : 'bg-red-900/20 text-red-500 border border-red-500 hover:bg-red-900/40'
+          } ${connection.status === 'connecting' ? 'cursor-wait' : ''}`}
         >
-          {isConnected ? '断开连接' : isConnecting ? '连接中...' : '初始化系统'}
+          {connection.status === 'live' || connection.status === 'failed'
+            ? '断开连接'
+            : connection.status === 'connecting'
+              ? '连接中...'
+              : connection.status === 'reconnecting'
+                ? `重连中 ${connection.attempt}/${MAX_RECONNECT_ATTEMPTS}`
+                : '初始化系统'}
         </button>
+        </div>
       </div>
 
       {/* Main Layout: Use min-h-0 and min-w-0 to prevent flex items from overflowing */}
@@ -537,27 +1537,120 @@ export default function App() {
         {/* Left Column (Video + Vis) - Grows */}
         <div className="flex-1 flex flex-col min-w-0 gap-4">
           {/* Video Container: min-h-0 allows it to shrink instead of pushing page down */}
-          <div className="flex-1 relative min-h-0 bg-black rounded-lg border border-slate-800 overflow-hidden group">
+          <div
+            className="flex-1 relative min-h-0 bg-black rounded-lg border border-slate-800 overflow-hidden group"
+            onDragOver={(e) => { e.preventDefault(); setIsDraggingFile(true); }}
+            onDragLeave={(e) => { if (!e.currentTarget.contains(e.relatedTarget as Node)) setIsDraggingFile(false); }}
+            onDrop={handleFileDrop}
+          >
              <video 
                ref={videoRef} 
                muted 
                playsInline 
                className="w-full h-full object-contain opacity-90 group-hover:opacity-100 transition-opacity"
              />
+             <video
+               ref={pipVideoRef}
+               muted
+               playsInline
+               className={`absolute bottom-3 right-3 w-1/4 border-2 border-cyan-400 rounded z-20 pointer-events-none ${visionSource === 'pip' ? '' : 'hidden'}`}
+             />
              <canvas ref={canvasRef} className="hidden" />
-             <canvas ref={overlayCanvasRef} className="absolute inset-0 w-full h-full pointer-events-none z-10" />
+             {isDraggingFile && (
+               <div className="absolute inset-2 z-40 border-2 border-dashed border-cyan-400 rounded bg-cyan-900/20 flex items-center justify-center text-cyan-300 text-sm pointer-events-none">
+                 松开以发送图片
+               </div>
+             )}
+             <canvas
+               ref={overlayCanvasRef}
+               onPointerDown={handleOverlayPointerDown}
+               onPointerMove={handleOverlayPointerMove}
+               onPointerUp={handleOverlayPointerUp}
+               onPointerCancel={() => { selectionRef.current = null; }}
+               title={isConnected ? '点击标注以询问或固定，拖动框选以提问' : undefined}
+               className={`absolute inset-0 w-full h-full z-10 touch-none ${isConnected ? 'cursor-crosshair' : 'pointer-events-none'}`}
+             />
+             {overlayMenu && (
+               <div
+                 className="absolute z-30 bg-slate-900/95 border border-cyan-500/60 rounded shadow-lg text-[10px] uppercase tracking-wider flex flex-col min-w-28"
+                 style={{ left: overlayMenu.left, top: overlayMenu.top }}
+               >
+                 <span className="px-3 py-1.5 text-slate-500 border-b border-slate-800 truncate">{overlayMenu.overlay.label}</span>
+                 <button
+                   onClick={() => {
+                     askAboutRegion(overlayMenu.overlay.box, `这个${overlayMenu.overlay.label}是什么？请结合图片详细说明。`);
+                     setOverlayMenu(null);
+                   }}
+                   className="px-3 py-1.5 text-left text-cyan-300 hover:bg-cyan-900/40"
+                 >
+                   询问
+                 </button>
+                 <button onClick={() => togglePin(overlayMenu.overlay)} className="px-3 py-1.5 text-left text-cyan-300 hover:bg-cyan-900/40">
+                   {overlayMenu.overlay.pinned ? '取消固定' : '固定'}
+                 </button>
+                 <button onClick={() => setOverlayMenu(null)} className="px-3 py-1.5 text-left text-slate-500 hover:bg-slate-800">关闭</button>
+               </div>
+             )}
              
              {/* HUD */}
              <div className="absolute inset-0 pointer-events-none p-4 flex flex-col justify-between z-20">
                <div className="flex justify-between items-start">
-                  <span className="text-[10px] bg-black/60 px-2 py-1 border-l border-cyan-500 text-cyan-200">VISION_MOD_01</span>
-                  {isConnected && <div className="w-2 h-2 bg-red-500 rounded-full animate-pulse shadow-[0_0_10px_red]"></div>}
+                  <div className="flex items-center gap-2">
+                    <span className="text-[10px] bg-black/60 px-2 py-1 border-l border-cyan-500 text-cyan-200">VISION :: {VISION_SOURCE_LABELS[visionSource]}</span>
+                    {isConnected && (
+                      <div className="pointer-events-auto flex text-[10px] bg-black/60 border border-cyan-800">
+                        {(Object.keys(VISION_SOURCE_LABELS) as VisionSource[]).map(source => (
+                          <button
+                            key={source}
+                            onClick={() => switchVisionSource(source)}
+                            className={`px-2 py-1 ${visionSource === source ? 'bg-cyan-900/60 text-white' : 'text-cyan-200/70 hover:text-white'}`}
+                          >
+                            {VISION_SOURCE_LABELS[source]}
+                          </button>
+                        ))}
+                      </div>
+                    )}
+                    {isConnected && (
+                      <button
+                        onClick={takeSnapshot}
+                        className="pointer-events-auto text-[10px] bg-black/60 px-2 py-1 border border-cyan-800 text-cyan-200 hover:border-cyan-400 hover:text-white"
+                      >
+                        快照
+                      </button>
+                    )}
+                    {isConnected && (
+                      <button
+                        onClick={() => recordingSince === null ? startRecording() : stopRecording()}
+                        className={`pointer-events-auto text-[10px] bg-black/60 px-2 py-1 border ${recordingSince === null ? 'border-cyan-800 text-cyan-200 hover:border-cyan-400 hover:text-white' : 'border-red-600 text-red-400 hover:text-white'}`}
+                      >
+                        {recordingSince === null ? '录音' : '停止录音'}
+                      </button>
+                    )}
+                  </div>
+                  {recordingSince !== null && !isConnected && <RecordingIndicator since={recordingSince} />}
+                  {isConnected && (
+                    <div className="flex items-center gap-2">
+                      {recordingSince !== null && <RecordingIndicator since={recordingSince} />}
+                      <span className="text-[10px] bg-black/60 px-2 py-1 border-r border-cyan-500 text-cyan-200" title="已发送 / 已采集帧数">
+                        FRAMES {frameStats.sent}/{frameStats.captured}
+                        {frameStats.captured > 0 && ` · 节省 ${Math.round((1 - frameStats.sent / frameStats.captured) * 100)}%`}
+                        {` · ${(frameStats.bytesSent / 1024).toFixed(0)} KB`}
+                      </span>
+                      <div className="w-2 h-2 bg-red-500 rounded-full animate-pulse shadow-[0_0_10px_red]"></div>
+                    </div>
+                  )}
                </div>
-               {!isConnected && !isConnecting && (
+               {connection.status === 'idle' && (
                  <div className="self-center text-center">
                     <p className="text-slate-600 text-sm blink mb-2">等待神经连接...</p>
                  </div>
                )}
+               {connection.status === 'failed' && (
+                 <div className="self-center text-center bg-black/60 px-4 py-2 border border-orange-500/50">
+                    <p className="text-orange-400 text-sm mb-1">链路中断，自动重连已停止</p>
+                    {connection.lastError && <p className="text-slate-500 text-[10px]">{connection.lastError}</p>}
+                 </div>
+               )}
                <div className="flex justify-between items-end opacity-50">
                   <div className="w-8 h-8 border-l-2 border-b-2 border-cyan-500"></div>
                   <div className="w-8 h-8 border-r-2 border-b-2 border-cyan-500"></div>
@@ -567,48 +1660,28 @@ export default function App() {
           
           {/* Visualizer: Fixed height, doesn't shrink */}
           <div className="h-32 shrink-0">
-             <Visualizer analyser={analyserRef.current} isActive={isConnected} />
+             <Visualizer input={inputAnalyserRef.current} output={analyserRef.current} isActive={isConnected} />
           </div>
         </div>
 
         {/* Right Column (Logs + Mem) - Fixed Width */}
         <div className="w-80 flex flex-col min-w-0 gap-4 shrink-0">
-           {/* Logs: flex-1 to take available height, min-h-0 to scroll internally */}
-           <div className="flex-1 flex flex-col min-h-0 bg-slate-900/30 border border-slate-800 rounded-lg p-3">
-              <div className="text-[10px] uppercase border-b border-slate-800 pb-2 mb-2 text-slate-500 flex justify-between">
-                <span>System Logs</span>
-                <span>CMD_OUT</span>
-              </div>
-              <div className="flex-1 overflow-y-auto space-y-2 font-mono text-xs pr-1 scrollbar-thin">
-                {logs.map(log => (
-                  <div key={log.id} className="flex gap-2 leading-relaxed">
-                     <span className="text-slate-600 shrink-0">[{log.timestamp.split(':').slice(0,2).join(':')}]</span>
-                     <div className="break-words">
-                        <span className={`font-bold mr-1 ${log.source==='JARVIS'?'text-cyan-400':log.source==='USER'?'text-white':log.source==='TOOL'?'text-yellow-400':'text-slate-500'}`}>{log.source}:</span>
-                        <span className={log.type==='error'?'text-red-400':log.type==='warning'?'text-orange-400':log.type==='success'?'text-green-400':'text-slate-300'}>{log.message}</span>
-                     </div>
-                  </div>
-                ))}
-                <div ref={logsEndRef} />
-              </div>
-           </div>
+           <DiagnosticsPanel snapshot={diagnostics} onExport={exportDiagnostics} />
+           <LogPanel logs={logs} capacity={logCapacity} onCapacityChange={changeLogCapacity} onLog={(m, t) => addLog(m, 'SYSTEM', t)}>
+             <CommandInput isConnected={isConnected} onSubmit={sendText} />
+           </LogPanel>
+
+           <ReminderPanel reminders={reminders} onSnooze={snoozeReminder} onCancel={cancelReminder} onDismiss={dismissReminder} />
 
            {/* Memory: Fixed height or ratio */}
-           <div className="h-48 shrink-0 flex flex-col bg-slate-900/30 border border-slate-800 rounded-lg p-3">
-              <div className="text-[10px] uppercase border-b border-slate-800 pb-2 mb-2 text-slate-500 flex justify-between">
-                <span>LTM Core</span>
-                <span className="text-cyan-600">{memories.length} OBJ</span>
-              </div>
-              <div className="flex-1 overflow-y-auto space-y-1 pr-1 scrollbar-thin">
-                 {memories.map(m => (
-                   <div key={m.key} className="text-xs bg-slate-800/40 p-2 rounded border-l border-cyan-800/50">
-                      <div className="text-cyan-300 font-bold mb-0.5">{m.key}</div>
-                      <div className="text-slate-400 leading-tight">{m.value}</div>
-                   </div>
-                 ))}
-                 {memories.length === 0 && <div className="text-center text-slate-700 text-xs mt-4">无数据</div>}
-              </div>
-           </div>
+           <MemoryPanel
+             memories={memories}
+             onUpdate={updateMemory}
+             onForget={forgetMemory}
+             onClear={clearMemories}
+             onExport={exportMemories}
+             onImport={importMemories}
+           />
         </div>
 
       </div>
@@ -0,0 +1,85 @@
+import React, { useEffect, useState } from 'react';
+import { AuditEntry, ConfirmationOutcome, LogEntry } from '../types';
+import { AuditLogService } from '../utils/auditLog';
+import { CONFIRMATION_OUTCOME_LABELS } from '../utils/toolPolicy';
+import { downloadText, fileTimestamp } from '../utils/download';
+
+interface AuditLogPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onLog: (message: string, type?: LogEntry['type']) => void;
+}
+
+const OUTCOME_CLASSES: Record<ConfirmationOutcome, string> = {
+  approved: 'text-green-400',
+  denied: 'text-red-400',
+  timeout: 'text-orange-400',
+  cancelled: 'text-slate-400',
+};
+
+const VIA_LABELS: Record<AuditEntry['via'], string> = {
+  dialog: '弹窗',
+  voice: '语音',
+  system: '系统',
+};
+
+export const AuditLogPanel: React.FC<AuditLogPanelProps> = ({ isOpen, onClose, onLog }) => {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  // Clearing takes a second click, since the log is the only record of what was approved
+  const [confirmingClear, setConfirmingClear] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setEntries(AuditLogService.list());
+    setConfirmingClear(false);
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const exportEntries = () =>
+    downloadText(AuditLogService.toJson(entries), `jarvis-audit_${fileTimestamp()}.json`, 'application/json');
+
+  const clear = () => {
+    if (!confirmingClear) {
+      setConfirmingClear(true);
+      return;
+    }
+    setConfirmingClear(false);
+    AuditLogService.clear();
+    setEntries([]);
+    onLog('审计日志已清空。', 'warning');
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/90 backdrop-blur-sm">
+      <div className="bg-slate-900 border border-cyan-500/50 p-6 rounded-lg w-full max-w-3xl h-[80vh] flex flex-col shadow-[0_0_50px_rgba(6,182,212,0.2)]">
+        <div className="flex justify-between items-center mb-4 border-b border-slate-800 pb-2">
+          <h2 className="text-xl font-bold text-cyan-400 tracking-widest uppercase">操作审计</h2>
+          <div className="flex gap-4 text-sm uppercase">
+            <button onClick={exportEntries} disabled={entries.length === 0} className="text-cyan-400 hover:text-white disabled:text-slate-700">导出 JSON</button>
+            <button onClick={clear} disabled={entries.length === 0} className="text-slate-400 hover:text-red-400 disabled:text-slate-700">{confirmingClear ? '确认清空' : '清空'}</button>
+            <button onClick={onClose} className="text-slate-400 hover:text-white">关闭</button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto space-y-2 pr-1 scrollbar-thin">
+          {entries.map(entry => (
+            <div key={entry.id} className="bg-slate-800/40 border-l border-cyan-800/50 rounded p-2 text-xs">
+              <div className="flex justify-between items-center gap-2">
+                <span className="text-cyan-300 font-bold truncate">{entry.reason}</span>
+                <span className={`shrink-0 ${OUTCOME_CLASSES[entry.outcome]}`}>
+                  {CONFIRMATION_OUTCOME_LABELS[entry.outcome]} · {VIA_LABELS[entry.via]}
+                </span>
+              </div>
+              <div className="text-slate-500 text-[10px] flex justify-between mt-1">
+                <span className="font-mono truncate">{entry.tool} {JSON.stringify(entry.args)}</span>
+                <span className="shrink-0 ml-2">{new Date(entry.timestamp).toLocaleString('zh-CN')}</span>
+              </div>
+            </div>
+          ))}
+          {entries.length === 0 && <div className="text-center text-slate-700 text-xs mt-4">暂无敏感操作记录</div>}
+        </div>
+      </div>
+    </div>
+  );
+};
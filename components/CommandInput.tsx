@@ -0,0 +1,82 @@
+import React, { useRef, useState } from 'react';
+
+interface CommandInputProps {
+  isConnected: boolean;
+  onSubmit: (text: string) => void;
+}
+
+const HISTORY_LIMIT = 50;
+const MAX_ROWS = 6;
+
+export const CommandInput: React.FC<CommandInputProps> = ({ isConnected, onSubmit }) => {
+  const [text, setText] = useState('');
+  const [history, setHistory] = useState<string[]>([]);
+  // Position while browsing history; null means editing the draft
+  const [cursor, setCursor] = useState<number | null>(null);
+  const draftRef = useRef('');
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  const submit = () => {
+    const trimmed = text.trim();
+    if (!trimmed || !isConnected) return;
+    onSubmit(trimmed);
+    setHistory(prev => [...prev.filter(h => h !== trimmed), trimmed].slice(-HISTORY_LIMIT));
+    setCursor(null);
+    setText('');
+  };
+
+  const recall = (index: number | null) => {
+    setCursor(index);
+    setText(index === null ? draftRef.current : history[index]);
+    // Put the caret at the end once React has updated the value
+    requestAnimationFrame(() => {
+      const el = textareaRef.current;
+      if (el) el.selectionStart = el.selectionEnd = el.value.length;
+    });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    const el = e.currentTarget;
+    if (e.key === 'Enter' && !e.shiftKey && !e.nativeEvent.isComposing) {
+      e.preventDefault();
+      submit();
+      return;
+    }
+    // Only browse history from the first/last line, so arrows still move within multi-line input
+    const onFirstLine = !el.value.slice(0, el.selectionStart).includes('\n');
+    const onLastLine = !el.value.slice(el.selectionEnd).includes('\n');
+    if (e.key === 'ArrowUp' && onFirstLine && history.length > 0) {
+      e.preventDefault();
+      if (cursor === null) draftRef.current = text;
+      recall(cursor === null ? history.length - 1 : Math.max(0, cursor - 1));
+    } else if (e.key === 'ArrowDown' && onLastLine && cursor !== null) {
+      e.preventDefault();
+      recall(cursor + 1 < history.length ? cursor + 1 : null);
+    }
+  };
+
+  const rows = Math.min(MAX_ROWS, text.split('\n').length);
+
+  return (
+    <div className="flex gap-2 items-end border-t border-slate-800 pt-2 mt-2">
+      <span className="text-cyan-600 text-xs leading-6 select-none">&gt;</span>
+      <textarea
+        ref={textareaRef}
+        value={text}
+        rows={rows}
+        onChange={(e) => { setText(e.target.value); setCursor(null); }}
+        onKeyDown={handleKeyDown}
+        disabled={!isConnected}
+        placeholder={isConnected ? '输入指令，Enter 发送，Shift+Enter 换行' : '连接后可输入指令'}
+        className="flex-1 resize-none bg-transparent text-xs text-cyan-100 font-mono leading-6 outline-none placeholder:text-slate-700 disabled:cursor-not-allowed scrollbar-thin"
+      />
+      <button
+        onClick={submit}
+        disabled={!isConnected || !text.trim()}
+        className="text-[10px] uppercase text-cyan-400 hover:text-white disabled:text-slate-700 leading-6"
+      >
+        发送
+      </button>
+    </div>
+  );
+};
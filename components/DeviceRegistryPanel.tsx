@@ -0,0 +1,165 @@
+import React, { useEffect, useState } from 'react';
+import { SmartDevice, SmartDeviceType, DeviceAdapterKind } from '../types';
+import { DEFAULT_ACTIONS, DEVICE_TYPE_LABELS } from '../utils/deviceRegistry';
+
+interface DeviceRegistryPanelProps {
+  isOpen: boolean;
+  devices: SmartDevice[];
+  onClose: () => void;
+  onSave: (devices: SmartDevice[]) => void;
+}
+
+const ADAPTER_LABELS: Record<DeviceAdapterKind, string> = {
+  local: '本地模拟',
+  http: 'HTTP/REST',
+  mqtt: 'MQTT (WebSocket)',
+};
+
+const parseActions = (text: string) => text.split(/[,，]/).map(a => a.trim()).filter(Boolean);
+
+const inputClass = 'w-full bg-slate-800 text-cyan-100 border border-slate-700 rounded p-1.5 text-xs focus:border-cyan-500 outline-none';
+
+export const DeviceRegistryPanel: React.FC<DeviceRegistryPanelProps> = ({ isOpen, devices, onClose, onSave }) => {
+  const [draft, setDraft] = useState<SmartDevice[]>([]);
+  // Raw action text per device while it is being typed; parsed on blur and on save
+  const [actionText, setActionText] = useState<Record<string, string>>({});
+
+  // Seeded once per opening, so device state changes during a session don't wipe edits
+  useEffect(() => {
+    if (!isOpen) return;
+    setDraft(devices);
+    setActionText({});
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const update = (id: string, patch: Partial<SmartDevice>) => {
+    setDraft(prev => prev.map(d => d.id === id ? { ...d, ...patch } : d));
+  };
+
+  const commitActions = (id: string) => {
+    const text = actionText[id];
+    if (text === undefined) return;
+    update(id, { actions: parseActions(text) });
+    setActionText(({ [id]: _, ...rest }) => rest);
+  };
+
+  const save = () => {
+    onSave(draft.map(d => actionText[d.id] === undefined ? d : { ...d, actions: parseActions(actionText[d.id]) }));
+  };
+
+  const addDevice = () => {
+    setDraft(prev => [...prev, {
+      id: Math.random().toString(36).substr(2, 9),
+      name: '新设备',
+      type: 'light',
+      actions: DEFAULT_ACTIONS.light,
+      state: '关闭',
+      adapter: 'local',
+      endpoint: '',
+    }]);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/90 backdrop-blur-sm">
+      <div className="bg-slate-900 border border-cyan-500/50 p-6 rounded-lg w-full max-w-3xl max-h-[85vh] flex flex-col shadow-[0_0_50px_rgba(6,182,212,0.2)]">
+        <h2 className="text-xl font-bold text-cyan-400 mb-4 tracking-widest uppercase border-b border-slate-800 pb-2">
+          设备注册表
+        </h2>
+        <div className="flex-1 overflow-y-auto space-y-3 mb-4 pr-1 scrollbar-thin">
+          {draft.map(d => (
+            <div key={d.id} className="bg-slate-800/40 p-3 rounded border-l border-cyan-800/50 grid grid-cols-6 gap-2 items-end">
+              <div className="col-span-2">
+                <label className="block text-[10px] text-slate-400 uppercase mb-1">名称</label>
+                <input value={d.name} onChange={(e) => update(d.id, { name: e.target.value })} className={inputClass} />
+              </div>
+              <div>
+                <label className="block text-[10px] text-slate-400 uppercase mb-1">类型</label>
+                <select
+                  value={d.type}
+                  onChange={(e) => {
+                    const type = e.target.value as SmartDeviceType;
+                    update(d.id, { type, actions: DEFAULT_ACTIONS[type] });
+                    setActionText(({ [d.id]: _, ...rest }) => rest);
+                  }}
+                  className={inputClass}
+                >
+                  {(Object.keys(DEVICE_TYPE_LABELS) as SmartDeviceType[]).map(t => <option key={t} value={t}>{DEVICE_TYPE_LABELS[t]}</option>)}
+                </select>
+              </div>
+              <div className="col-span-2">
+                <label className="block text-[10px] text-slate-400 uppercase mb-1">可用动作 (逗号分隔)</label>
+                <input
+                  value={actionText[d.id] ?? d.actions.join(',')}
+                  onChange={(e) => setActionText(prev => ({ ...prev, [d.id]: e.target.value }))}
+                  onBlur={() => commitActions(d.id)}
+                  className={inputClass}
+                />
+              </div>
+              <div className="text-right">
+                <div className="text-[10px] text-slate-500 mb-1">状态: <span className="text-cyan-300">{d.state}</span></div>
+                <label
+                  className="flex items-center justify-end gap-1 text-[10px] text-slate-400 mb-1 cursor-pointer"
+                  title="门锁和安防警报除锁定/布防外的动作总是需要确认；勾选后该设备的所有动作都需要确认"
+                >
+                  <input
+                    type="checkbox"
+                    checked={!!d.sensitive}
+                    onChange={(e) => update(d.id, { sensitive: e.target.checked })}
+                    className="accent-red-500"
+                  />
+                  需确认
+                </label>
+                <button
+                  onClick={() => setDraft(prev => prev.filter(x => x.id !== d.id))}
+                  className="text-[10px] px-2 py-1 border border-slate-700 text-slate-400 rounded hover:border-red-500 hover:text-red-400"
+                >
+                  删除
+                </button>
+              </div>
+              <div className="col-span-2">
+                <label className="block text-[10px] text-slate-400 uppercase mb-1">适配器</label>
+                <select value={d.adapter} onChange={(e) => update(d.id, { adapter: e.target.value as DeviceAdapterKind })} className={inputClass}>
+                  {(Object.keys(ADAPTER_LABELS) as DeviceAdapterKind[]).map(a => <option key={a} value={a}>{ADAPTER_LABELS[a]}</option>)}
+                </select>
+              </div>
+              {d.adapter !== 'local' && (
+                <div className={d.adapter === 'mqtt' ? 'col-span-2' : 'col-span-4'}>
+                  <label className="block text-[10px] text-slate-400 uppercase mb-1">{d.adapter === 'mqtt' ? '代理地址' : '端点 URL'}</label>
+                  <input
+                    value={d.endpoint}
+                    placeholder={d.adapter === 'mqtt' ? 'ws://localhost:9001' : 'http://localhost:8080/devices'}
+                    onChange={(e) => update(d.id, { endpoint: e.target.value })}
+                    className={inputClass}
+                  />
+                </div>
+              )}
+              {d.adapter === 'mqtt' && (
+                <div className="col-span-2">
+                  <label className="block text-[10px] text-slate-400 uppercase mb-1">主题</label>
+                  <input
+                    value={d.topic || ''}
+                    placeholder={`jarvis/devices/${d.id}/set`}
+                    onChange={(e) => update(d.id, { topic: e.target.value })}
+                    className={inputClass}
+                  />
+                </div>
+              )}
+            </div>
+          ))}
+          {draft.length === 0 && <div className="text-center text-slate-700 text-xs mt-4">无设备</div>}
+        </div>
+        <div className="flex justify-between gap-3">
+          <button onClick={addDevice} className="px-4 py-2 text-cyan-400 hover:text-white text-sm uppercase">+ 添加设备</button>
+          <div className="flex gap-3">
+            <button onClick={onClose} className="px-4 py-2 text-slate-400 hover:text-white text-sm uppercase">取消</button>
+            <button onClick={save} className="px-6 py-2 bg-cyan-900/40 text-cyan-400 border border-cyan-500/50 rounded hover:bg-cyan-500 hover:text-black transition-all font-bold text-sm uppercase shadow-[0_0_15px_rgba(6,182,212,0.3)]">
+              保存
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
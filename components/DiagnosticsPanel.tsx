@@ -0,0 +1,80 @@
+import React, { useState } from 'react';
+import { DiagnosticsSnapshot, SeriesPoint } from '../utils/diagnostics';
+
+interface DiagnosticsPanelProps {
+  snapshot: DiagnosticsSnapshot | null;
+  onExport: () => void;
+}
+
+const SPARK_POINTS = 60;
+
+const Sparkline: React.FC<{ points: SeriesPoint[]; color: string }> = ({ points, color }) => {
+  const recent = points.slice(-SPARK_POINTS);
+  if (recent.length < 2) return <svg className="w-20 h-5" />;
+  const max = Math.max(...recent.map(p => p.v), 1);
+  const path = recent
+    .map((p, i) => `${(i / (recent.length - 1)) * 80},${20 - (p.v / max) * 18 - 1}`)
+    .join(' ');
+  return (
+    <svg viewBox="0 0 80 20" className="w-20 h-5" preserveAspectRatio="none">
+      <polyline points={path} fill="none" stroke={color} strokeWidth={1.2} vectorEffect="non-scaling-stroke" />
+    </svg>
+  );
+};
+
+const last = (points: SeriesPoint[]) => points.length > 0 ? points[points.length - 1].v : null;
+
+const formatMs = (ms: number | null) => ms === null ? '—' : ms >= 1000 ? `${(ms / 1000).toFixed(2)} s` : `${Math.round(ms)} ms`;
+
+const formatBytes = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${(bytes / 1024).toFixed(0)} KB`;
+
+const formatRate = (bytesPerSec: number | null) => bytesPerSec === null ? '—' : `${(bytesPerSec / 1024).toFixed(1)} KB/s`;
+
+export const DiagnosticsPanel: React.FC<DiagnosticsPanelProps> = ({ snapshot, onExport }) => {
+  const [expanded, setExpanded] = useState(false);
+  const latency = snapshot ? last(snapshot.latency) : null;
+
+  const row = (label: string, value: string, points?: SeriesPoint[], color = '#22d3ee') => (
+    <div className="flex items-center justify-between gap-2">
+      <span className="text-slate-500">{label}</span>
+      <span className="flex items-center gap-2">
+        {points && <Sparkline points={points} color={color} />}
+        <span className="text-cyan-200 min-w-[5rem] text-right whitespace-nowrap">{value}</span>
+      </span>
+    </div>
+  );
+
+  return (
+    <div className="shrink-0 bg-slate-900/30 border border-slate-800 rounded-lg p-3">
+      <div
+        onClick={() => setExpanded(e => !e)}
+        className="text-[10px] uppercase text-slate-500 flex justify-between cursor-pointer select-none hover:text-slate-300"
+      >
+        <span>{expanded ? '▾' : '▸'} Diagnostics</span>
+        <span className="text-cyan-600">{snapshot ? `响应 ${formatMs(latency)}` : 'IDLE'}</span>
+      </div>
+      {expanded && (
+        !snapshot ? (
+          <div className="text-center text-slate-700 text-xs mt-2">连接后开始采集</div>
+        ) : (
+          <div className="mt-2 pt-2 border-t border-slate-800 space-y-1 font-mono text-[10px]">
+            {row('响应延迟', formatMs(latency), snapshot.latency, '#fbbf24')}
+            {row('工具往返', formatMs(last(snapshot.toolRtt)), snapshot.toolRtt, '#a78bfa')}
+            {row('播放队列', formatMs(last(snapshot.queueDepth)), snapshot.queueDepth)}
+            {row('上行', formatRate(last(snapshot.sendRate)), snapshot.sendRate, '#4ade80')}
+            {row('下行', formatRate(last(snapshot.receiveRate)), snapshot.receiveRate)}
+            {row('音频发送', `${snapshot.totals.audioChunksSent} · ${formatBytes(snapshot.totals.audioBytesSent)}`)}
+            {row('音频接收', `${snapshot.totals.audioChunksReceived} · ${formatBytes(snapshot.totals.audioBytesReceived)}`)}
+            {row('视频帧', `${snapshot.totals.framesSent} · ${formatBytes(snapshot.totals.frameBytesSent)}`)}
+            {row('工具调用', String(snapshot.totals.toolCalls))}
+            {row('重连 / 打断', `${snapshot.totals.reconnects} / ${snapshot.totals.interruptions}`)}
+            <div className="flex justify-end pt-1">
+              <button onClick={onExport} className="text-cyan-400 hover:text-white uppercase">导出 JSON</button>
+            </div>
+          </div>
+        )
+      )}
+    </div>
+  );
+};
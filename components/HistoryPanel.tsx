@@ -0,0 +1,185 @@
+import React, { useEffect, useState } from 'react';
+import { HistoryRetention, LogEntry, SessionRecord } from '../types';
+import { HistoryService, SearchHit, SessionSummary } from '../utils/historyService';
+import { downloadText, fileTimestamp } from '../utils/download';
+
+interface HistoryPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onLog: (message: string, type?: LogEntry['type']) => void;
+}
+
+const sourceColor = (source: LogEntry['source']) =>
+  source === 'JARVIS' ? 'text-cyan-400' : source === 'USER' ? 'text-white' : source === 'TOOL' ? 'text-yellow-400' : 'text-slate-500';
+
+const inputClass = 'bg-slate-800 text-cyan-100 border border-slate-700 rounded px-2 py-1 text-xs focus:border-cyan-500 outline-none';
+
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({ isOpen, onClose, onLog }) => {
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
+  const [selected, setSelected] = useState<SessionRecord | null>(null);
+  const [query, setQuery] = useState('');
+  const [hits, setHits] = useState<SearchHit[] | null>(null);
+  const [retention, setRetention] = useState<HistoryRetention>(HistoryService.loadRetention());
+
+  const refresh = () => HistoryService.list().then(setSessions).catch(e => onLog(`历史记录加载失败: ${e}`, 'error'));
+
+  useEffect(() => {
+    if (!isOpen) return;
+    refresh();
+    setSelected(null);
+    setQuery('');
+    setHits(null);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isOpen]);
+
+  useEffect(() => {
+    if (!query.trim()) {
+      setHits(null);
+      return;
+    }
+    const id = setTimeout(() => {
+      HistoryService.search(query).then(setHits).catch(e => onLog(`历史记录搜索失败: ${e}`, 'error'));
+    }, 250);
+    return () => clearTimeout(id);
+  }, [query]);
+
+  if (!isOpen) return null;
+
+  const open = (id: string) =>
+    HistoryService.get(id).then(record => setSelected(record || null)).catch(e => onLog(`会话加载失败: ${e}`, 'error'));
+
+  const exportSession = (format: 'json' | 'markdown') => {
+    if (!selected) return;
+    const name = `jarvis-session_${fileTimestamp(new Date(selected.startedAt))}`;
+    if (format === 'json') downloadText(HistoryService.toJson(selected), `${name}.json`, 'application/json');
+    else downloadText(HistoryService.toMarkdown(selected), `${name}.md`, 'text/markdown');
+  };
+
+  const removeSession = async () => {
+    if (!selected) return;
+    try {
+      await HistoryService.remove(selected.id);
+      setSelected(null);
+    } catch (e) {
+      onLog(`会话删除失败: ${e}`, 'error');
+    }
+    refresh();
+  };
+
+  const saveRetention = async () => {
+    try {
+      HistoryService.saveRetention(retention);
+      const removed = await HistoryService.applyRetention(retention);
+      onLog(`历史保留策略已更新${removed > 0 ? `，清理了 ${removed} 个会话` : ''}。`, 'info');
+    } catch (e) {
+      onLog(`历史保留策略更新失败: ${e}`, 'error');
+    }
+    refresh();
+  };
+
+  const list: { session: SessionSummary; matches?: number }[] = hits
+    ? hits.map(h => ({ session: h.session, matches: h.matches.length }))
+    : sessions.map(session => ({ session }));
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/90 backdrop-blur-sm">
+      <div className="bg-slate-900 border border-cyan-500/50 p-6 rounded-lg w-full max-w-5xl h-[85vh] flex flex-col shadow-[0_0_50px_rgba(6,182,212,0.2)]">
+        <div className="flex justify-between items-center mb-4 border-b border-slate-800 pb-2">
+          <h2 className="text-xl font-bold text-cyan-400 tracking-widest uppercase">会话档案</h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-white text-sm uppercase">关闭</button>
+        </div>
+
+        <div className="flex-1 flex gap-4 min-h-0">
+          {/* Session list */}
+          <div className="w-72 shrink-0 flex flex-col min-h-0">
+            <input
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="搜索所有会话..."
+              className={`${inputClass} mb-2`}
+            />
+            <div className="flex-1 overflow-y-auto space-y-1 pr-1 scrollbar-thin">
+              {list.map(({ session, matches }) => (
+                <button
+                  key={session.id}
+                  onClick={() => open(session.id)}
+                  className={`w-full text-left text-xs p-2 rounded border-l ${selected?.id === session.id ? 'bg-cyan-900/30 border-cyan-500' : 'bg-slate-800/40 border-cyan-800/50 hover:bg-slate-800'}`}
+                >
+                  <div className="text-cyan-300 font-bold truncate">{session.title}</div>
+                  <div className="text-slate-500 text-[10px] flex justify-between">
+                    <span>{new Date(session.startedAt).toLocaleString('zh-CN')}</span>
+                    <span>{matches !== undefined ? `${matches} 处匹配` : `${session.eventCount} 条`}</span>
+                  </div>
+                </button>
+              ))}
+              {list.length === 0 && <div className="text-center text-slate-700 text-xs mt-4">{hits ? '无匹配结果' : '暂无会话记录'}</div>}
+            </div>
+          </div>
+
+          {/* Read-only session view */}
+          <div className="flex-1 flex flex-col min-h-0 min-w-0 bg-slate-950/50 border border-slate-800 rounded p-3">
+            {selected ? (
+              <>
+                <div className="flex justify-between items-center text-[10px] uppercase text-slate-500 border-b border-slate-800 pb-2 mb-2">
+                  <span className="truncate">{selected.title} · {new Date(selected.startedAt).toLocaleString('zh-CN')}</span>
+                  <div className="flex gap-3 shrink-0">
+                    <button onClick={() => exportSession('markdown')} className="hover:text-cyan-400">导出 MD</button>
+                    <button onClick={() => exportSession('json')} className="hover:text-cyan-400">导出 JSON</button>
+                    <button onClick={removeSession} className="hover:text-red-400">删除</button>
+                  </div>
+                </div>
+                <div className="flex-1 overflow-y-auto space-y-2 font-mono text-xs pr-1 scrollbar-thin">
+                  {selected.events.map((e, i) => {
+                    const highlighted = query.trim() && e.message.toLowerCase().includes(query.trim().toLowerCase());
+                    return (
+                      <div key={i} className={`flex gap-2 leading-relaxed ${highlighted ? 'bg-yellow-900/20' : ''}`}>
+                        <span className="text-slate-600 shrink-0">[{new Date(e.timestamp).toLocaleTimeString('zh-CN')}]</span>
+                        <div className="break-words min-w-0">
+                          <span className={`font-bold mr-1 ${sourceColor(e.source)}`}>{e.source}:</span>
+                          <span className="text-slate-300">{e.message}</span>
+                          {e.data !== undefined && (
+                            <pre className="text-[10px] text-slate-500 whitespace-pre-wrap mt-1">{JSON.stringify(e.data, null, 2)}</pre>
+                          )}
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              </>
+            ) : (
+              <div className="m-auto text-slate-700 text-xs">选择一个会话以查看</div>
+            )}
+          </div>
+        </div>
+
+        {/* Retention */}
+        <div className="flex items-center gap-3 mt-4 pt-3 border-t border-slate-800 text-[10px] uppercase text-slate-500">
+          <span>保留策略</span>
+          <label className="flex items-center gap-1">
+            最多
+            <input
+              type="number"
+              min={1}
+              value={retention.maxSessions}
+              onChange={(e) => setRetention({ ...retention, maxSessions: Math.max(1, Number(e.target.value)) })}
+              className={`${inputClass} w-16`}
+            />
+            个会话
+          </label>
+          <label className="flex items-center gap-1">
+            最长
+            <input
+              type="number"
+              min={1}
+              value={retention.maxAgeDays}
+              onChange={(e) => setRetention({ ...retention, maxAgeDays: Math.max(1, Number(e.target.value)) })}
+              className={`${inputClass} w-16`}
+            />
+            天
+          </label>
+          <button onClick={saveRetention} className="text-cyan-400 hover:text-white">应用</button>
+        </div>
+      </div>
+    </div>
+  );
+};
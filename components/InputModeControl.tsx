@@ -0,0 +1,88 @@
+import React, { useEffect, useState } from 'react';
+import { InputMode, InputSettings } from '../types';
+import { INPUT_MODE_LABELS } from '../utils/inputGate';
+import { isValidWakePhrase } from '../utils/wakeWord';
+
+interface InputModeControlProps {
+  settings: InputSettings;
+  activeMode: InputMode; // Differs from settings.mode when wake mode had to fall back
+  micOpen: boolean;
+  isConnected: boolean;
+  onChange: (settings: InputSettings) => void;
+  onPushToTalk: (held: boolean) => void;
+}
+
+const statusText = (settings: InputSettings, mode: InputMode, micOpen: boolean) => {
+  if (micOpen) return mode === 'always' ? '收听中' : '发送中';
+  switch (mode) {
+    case 'ptt': return '按住空格说话';
+    case 'vad': return '等待语音';
+    case 'wake': return `等待“${settings.wakePhrase}”`;
+    default: return '静音';
+  }
+};
+
+export const InputModeControl: React.FC<InputModeControlProps> = ({ settings, activeMode, micOpen, isConnected, onChange, onPushToTalk }) => {
+  // Edited locally and applied on blur or Enter: applying restarts the recognizer and mutes the mic
+  const [phraseDraft, setPhraseDraft] = useState(settings.wakePhrase);
+  useEffect(() => setPhraseDraft(settings.wakePhrase), [settings.wakePhrase]);
+
+  const commitPhrase = () => {
+    if (phraseDraft === settings.wakePhrase) return;
+    // A blank phrase would match any speech; keep the current one instead
+    if (!isValidWakePhrase(phraseDraft)) setPhraseDraft(settings.wakePhrase);
+    else onChange({ ...settings, wakePhrase: phraseDraft });
+  };
+
+  return (
+    <div className="flex items-center gap-2 text-[10px] uppercase tracking-wider">
+      <select
+        value={settings.mode}
+        onChange={(e) => onChange({ ...settings, mode: e.target.value as InputMode })}
+        className="bg-slate-800 text-cyan-100 border border-slate-700 rounded px-2 py-1.5 outline-none focus:border-cyan-500"
+      >
+        {(Object.keys(INPUT_MODE_LABELS) as InputMode[]).map(m => <option key={m} value={m}>{INPUT_MODE_LABELS[m]}</option>)}
+      </select>
+      {settings.mode === 'wake' && (
+        <input
+          value={phraseDraft}
+          onChange={(e) => setPhraseDraft(e.target.value)}
+          onBlur={commitPhrase}
+          onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+          className="w-20 bg-slate-800 text-cyan-100 border border-slate-700 rounded px-2 py-1.5 outline-none focus:border-cyan-500"
+          title="唤醒词"
+        />
+      )}
+      {settings.mode === 'wake' && (
+        <label
+          className={`flex items-center gap-1 cursor-pointer ${settings.wakeAllowCloud ? 'text-orange-400' : 'text-slate-500'}`}
+          title="浏览器无法在本地识别唤醒词时，使用云端语音识别。等待唤醒期间，麦克风音频会持续发送到浏览器厂商的语音服务。"
+        >
+          <input
+            type="checkbox"
+            checked={settings.wakeAllowCloud}
+            onChange={(e) => onChange({ ...settings, wakeAllowCloud: e.target.checked })}
+            className="accent-orange-500"
+          />
+          允许云端识别
+        </label>
+      )}
+      {activeMode === 'ptt' && isConnected && (
+        <button
+          onPointerDown={() => onPushToTalk(true)}
+          onPointerUp={() => onPushToTalk(false)}
+          onPointerLeave={() => onPushToTalk(false)}
+          className={`px-3 py-1.5 rounded border select-none ${micOpen ? 'bg-red-900/40 border-red-500 text-red-400' : 'border-slate-700 text-slate-400 hover:border-cyan-500'}`}
+        >
+          按住通话
+        </button>
+      )}
+      {isConnected && (
+        <span className={`flex items-center gap-1 ${micOpen ? 'text-green-400' : 'text-slate-500'}`}>
+          <span className={`w-1.5 h-1.5 rounded-full ${micOpen ? 'bg-green-400 animate-pulse' : 'bg-slate-600'}`} />
+          {statusText(settings, activeMode, micOpen)}
+        </span>
+      )}
+    </div>
+  );
+};
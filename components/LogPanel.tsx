@@ -0,0 +1,246 @@
+import React, { useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import { LogEntry } from '../types';
+import { LOG_CAPACITY_OPTIONS, formatLogs } from '../utils/logBuffer';
+import { downloadText, fileTimestamp } from '../utils/download';
+
+type Source = LogEntry['source'];
+type Severity = LogEntry['type'];
+
+const SOURCES: Source[] = ['SYSTEM', 'JARVIS', 'USER', 'TOOL'];
+const SEVERITIES: Severity[] = ['info', 'success', 'warning', 'error'];
+
+const SOURCE_CLASSES: Record<Source, string> = {
+  SYSTEM: 'text-slate-500',
+  JARVIS: 'text-cyan-400',
+  USER: 'text-white',
+  TOOL: 'text-yellow-400',
+};
+
+const SEVERITY_CLASSES: Record<Severity, string> = {
+  info: 'text-slate-300',
+  success: 'text-green-400',
+  warning: 'text-orange-400',
+  error: 'text-red-400',
+};
+
+const SEVERITY_LABELS: Record<Severity, string> = {
+  info: 'INFO',
+  success: 'OK',
+  warning: 'WARN',
+  error: 'ERR',
+};
+
+// Rows are measured once rendered; this is only used until then
+const ESTIMATED_ROW_HEIGHT = 24;
+const ROW_GAP = 8;
+const OVERSCAN_PX = 300;
+// Within this distance of the bottom counts as following the log
+const STICK_THRESHOLD_PX = 16;
+
+interface LogPanelProps {
+  logs: LogEntry[];
+  capacity: number;
+  onCapacityChange: (capacity: number) => void;
+  onLog: (message: string, type?: LogEntry['type']) => void;
+  children?: React.ReactNode; // Rendered under the list, e.g. the command input
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const highlight = (text: string, pattern: RegExp | null) => {
+  if (!pattern) return text;
+  return text.split(pattern).map((part, i) =>
+    i % 2 === 1 ? <mark key={i} className="bg-yellow-500/40 text-inherit rounded-sm">{part}</mark> : part
+  );
+};
+
+const toggle = <T,>(set: Set<T>, value: T) => {
+  const next = new Set(set);
+  if (next.has(value)) next.delete(value);
+  else next.add(value);
+  return next;
+};
+
+export const LogPanel: React.FC<LogPanelProps> = ({ logs, capacity, onCapacityChange, onLog, children }) => {
+  const [sources, setSources] = useState<Set<Source>>(new Set(SOURCES));
+  const [severities, setSeverities] = useState<Set<Severity>>(new Set(SEVERITIES));
+  const [query, setQuery] = useState('');
+  const [following, setFollowing] = useState(true);
+  const [viewport, setViewport] = useState({ scrollTop: 0, height: 0 });
+  const [, setMeasureTick] = useState(0);
+
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const heightsRef = useRef(new Map<string, number>());
+  const seenSeqRef = useRef(0); // Newest entry when the user stopped following
+
+  const pattern = useMemo(() => {
+    const q = query.trim();
+    // Capturing group so split() keeps the matches
+    return q ? new RegExp(`(${escapeRegExp(q)})`, 'gi') : null;
+  }, [query]);
+
+  const visible = useMemo(() => {
+    const q = query.trim().toLowerCase();
+    return logs.filter(l =>
+      sources.has(l.source) && severities.has(l.type) && (!q || l.message.toLowerCase().includes(q))
+    );
+  }, [logs, sources, severities, query]);
+
+  // Prefix sums of row heights, recomputed every render so new measurements are picked up.
+  // Only rows that intersect the viewport (plus overscan) are mounted.
+  const offsets = new Array<number>(visible.length + 1);
+  offsets[0] = 0;
+  visible.forEach((l, i) => {
+    offsets[i + 1] = offsets[i] + (heightsRef.current.get(l.id) ?? ESTIMATED_ROW_HEIGHT) + ROW_GAP;
+  });
+  const totalHeight = offsets[visible.length];
+
+  const findRow = (y: number) => {
+    let lo = 0;
+    let hi = visible.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (offsets[mid + 1] <= y) lo = mid + 1;
+      else hi = mid;
+    }
+    return lo;
+  };
+  const first = findRow(Math.max(0, viewport.scrollTop - OVERSCAN_PX));
+  const last = Math.min(visible.length, findRow(viewport.scrollTop + viewport.height + OVERSCAN_PX) + 1);
+
+  const measure = useCallback((id: string) => (el: HTMLDivElement | null) => {
+    if (!el) return;
+    const height = el.getBoundingClientRect().height;
+    if (heightsRef.current.get(id) !== height) {
+      heightsRef.current.set(id, height);
+      setMeasureTick(t => t + 1);
+    }
+  }, []);
+
+  // Forget heights of evicted entries
+  useEffect(() => {
+    const ids = new Set(logs.map(l => l.id));
+    heightsRef.current.forEach((_, id) => { if (!ids.has(id)) heightsRef.current.delete(id); });
+  }, [logs]);
+
+  useEffect(() => {
+    const el = scrollRef.current;
+    if (!el) return;
+    const observer = new ResizeObserver(() => setViewport({ scrollTop: el.scrollTop, height: el.clientHeight }));
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, []);
+
+  useLayoutEffect(() => {
+    const el = scrollRef.current;
+    if (!el || !following) return;
+    el.scrollTop = el.scrollHeight;
+  });
+
+  const onScroll = () => {
+    const el = scrollRef.current;
+    if (!el) return;
+    setViewport({ scrollTop: el.scrollTop, height: el.clientHeight });
+    const atBottom = el.scrollHeight - el.scrollTop - el.clientHeight <= STICK_THRESHOLD_PX;
+    if (atBottom !== following) {
+      setFollowing(atBottom);
+      seenSeqRef.current = logs.length > 0 ? logs[logs.length - 1].seq : 0;
+    }
+  };
+
+  const resume = () => {
+    setFollowing(true);
+    const el = scrollRef.current;
+    if (el) el.scrollTop = el.scrollHeight;
+  };
+
+  const copy = async () => {
+    try {
+      await navigator.clipboard.writeText(formatLogs(visible));
+      onLog(`已复制 ${visible.length} 条日志。`, 'success');
+    } catch (e) {
+      onLog(`复制失败: ${e}`, 'error');
+    }
+  };
+
+  const exportLogs = () => downloadText(formatLogs(visible), `jarvis-logs_${fileTimestamp()}.txt`);
+
+  const chip = (active: boolean, extra: string) =>
+    `px-1.5 py-0.5 border rounded-sm ${active ? `border-slate-600 bg-slate-800 ${extra}` : 'border-slate-800 text-slate-700 line-through'}`;
+
+  // Counted by sequence number, so entries still register as new once the buffer is full and evicting
+  let unseen = 0;
+  if (!following) {
+    for (let i = visible.length - 1; i >= 0 && visible[i].seq > seenSeqRef.current; i--) unseen++;
+  }
+
+  return (
+    <div className="flex-1 flex flex-col min-h-0 bg-slate-900/30 border border-slate-800 rounded-lg p-3">
+      <div className="text-[10px] uppercase border-b border-slate-800 pb-2 mb-2 text-slate-500 space-y-1.5">
+        <div className="flex justify-between items-center">
+          <span>System Logs</span>
+          <span className="flex items-center gap-2">
+            <span title="显示 / 缓冲">{visible.length}/{logs.length}</span>
+            <select
+              value={capacity}
+              onChange={(e) => onCapacityChange(Number(e.target.value))}
+              title="日志缓冲上限"
+              className="bg-slate-800 text-slate-400 border border-slate-700 rounded px-1 outline-none focus:border-cyan-500"
+            >
+              {LOG_CAPACITY_OPTIONS.map(c => <option key={c} value={c}>MAX {c}</option>)}
+            </select>
+            <button onClick={copy} className="hover:text-cyan-400">复制</button>
+            <button onClick={exportLogs} className="hover:text-cyan-400">导出</button>
+          </span>
+        </div>
+        <div className="flex flex-wrap gap-1">
+          {SOURCES.map(s => (
+            <button key={s} onClick={() => setSources(prev => toggle(prev, s))} className={chip(sources.has(s), SOURCE_CLASSES[s])}>{s}</button>
+          ))}
+          {SEVERITIES.map(t => (
+            <button key={t} onClick={() => setSeverities(prev => toggle(prev, t))} className={chip(severities.has(t), SEVERITY_CLASSES[t])}>{SEVERITY_LABELS[t]}</button>
+          ))}
+        </div>
+        <input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="搜索日志..."
+          className="w-full bg-slate-800 text-cyan-100 border border-slate-700 rounded px-2 py-1 normal-case outline-none focus:border-cyan-500"
+        />
+      </div>
+
+      <div className="relative flex-1 min-h-0">
+        <div ref={scrollRef} onScroll={onScroll} className="absolute inset-0 overflow-y-auto font-mono text-xs pr-1 scrollbar-thin">
+          <div style={{ height: totalHeight, position: 'relative' }}>
+            {visible.slice(first, last).map((log, i) => (
+              <div
+                key={log.id}
+                ref={measure(log.id)}
+                style={{ position: 'absolute', top: offsets[first + i], left: 0, right: 0 }}
+                className="flex gap-2 leading-relaxed"
+              >
+                <span className="text-slate-600 shrink-0">[{log.timestamp.split(':').slice(0, 2).join(':')}]</span>
+                <div className="break-words whitespace-pre-wrap min-w-0">
+                  <span className={`font-bold mr-1 ${SOURCE_CLASSES[log.source]}`}>{log.source}:</span>
+                  <span className={SEVERITY_CLASSES[log.type]}>{highlight(log.message, pattern)}</span>
+                  {log.partial && <span className="text-cyan-500 animate-pulse ml-0.5">▍</span>}
+                </div>
+              </div>
+            ))}
+          </div>
+          {visible.length === 0 && <div className="text-center text-slate-700 text-xs mt-4">无匹配日志</div>}
+        </div>
+        {!following && (
+          <button
+            onClick={resume}
+            className="absolute bottom-2 right-3 text-[10px] px-2 py-1 bg-cyan-900/80 border border-cyan-500 text-cyan-200 rounded hover:bg-cyan-700"
+          >
+            ↓ {unseen > 0 ? `${unseen} 条新日志` : '回到底部'}
+          </button>
+        )}
+      </div>
+
+      {children}
+    </div>
+  );
+};
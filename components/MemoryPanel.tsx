@@ -0,0 +1,112 @@
+import React, { useRef, useState } from 'react';
+import { MemoryItem } from '../types';
+import { MergeStrategy } from '../utils/memoryBackup';
+
+interface MemoryPanelProps {
+  memories: MemoryItem[];
+  onUpdate: (key: string, value: string) => void;
+  onForget: (key: string) => void;
+  onClear: () => void;
+  onExport: (format: 'json' | 'markdown') => void;
+  onImport: (file: File, strategy: MergeStrategy) => void;
+}
+
+const STRATEGY_LABELS: Record<MergeStrategy, string> = {
+  skip: '跳过重复',
+  overwrite: '按键覆盖',
+  keepBoth: '保留两者',
+};
+
+export const MemoryPanel: React.FC<MemoryPanelProps> = ({ memories, onUpdate, onForget, onClear, onExport, onImport }) => {
+  const [editingKey, setEditingKey] = useState<string | null>(null);
+  const [editValue, setEditValue] = useState('');
+  const [confirmClear, setConfirmClear] = useState(false);
+  const [strategy, setStrategy] = useState<MergeStrategy>('skip');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const startEdit = (m: MemoryItem) => {
+    setEditingKey(m.key);
+    setEditValue(m.value);
+  };
+
+  const commitEdit = () => {
+    if (editingKey && editValue.trim()) onUpdate(editingKey, editValue.trim());
+    setEditingKey(null);
+  };
+
+  return (
+    <div className="h-48 shrink-0 flex flex-col bg-slate-900/30 border border-slate-800 rounded-lg p-3">
+      <div className="text-[10px] uppercase border-b border-slate-800 pb-2 mb-2 text-slate-500 flex justify-between items-center">
+        <span>LTM Core</span>
+        <div className="flex items-center gap-2">
+          <span className="text-cyan-600">{memories.length} OBJ</span>
+          {memories.length > 0 && (confirmClear ? (
+            <>
+              <button onClick={() => { onClear(); setConfirmClear(false); }} className="text-red-400 hover:text-red-300">确认清空</button>
+              <button onClick={() => setConfirmClear(false)} className="text-slate-500 hover:text-white">取消</button>
+            </>
+          ) : (
+            <button onClick={() => setConfirmClear(true)} className="text-slate-500 hover:text-red-400">清空</button>
+          ))}
+        </div>
+      </div>
+      <div className="flex items-center gap-2 mb-2 text-[10px] uppercase text-slate-500">
+        <button onClick={() => onExport('json')} disabled={memories.length === 0} className="hover:text-cyan-400 disabled:opacity-30">导出 JSON</button>
+        <button onClick={() => onExport('markdown')} disabled={memories.length === 0} className="hover:text-cyan-400 disabled:opacity-30">导出 MD</button>
+        <span className="flex-1" />
+        <select
+          value={strategy}
+          onChange={(e) => setStrategy(e.target.value as MergeStrategy)}
+          className="bg-slate-800 text-slate-400 border border-slate-700 rounded px-1 py-0.5 outline-none"
+        >
+          {(Object.keys(STRATEGY_LABELS) as MergeStrategy[]).map(k => <option key={k} value={k}>{STRATEGY_LABELS[k]}</option>)}
+        </select>
+        <button onClick={() => fileInputRef.current?.click()} className="hover:text-cyan-400">导入</button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) onImport(file, strategy);
+            e.target.value = '';
+          }}
+        />
+      </div>
+      <div className="flex-1 overflow-y-auto space-y-1 pr-1 scrollbar-thin">
+        {memories.map(m => (
+          <div key={m.key} className="group text-xs bg-slate-800/40 p-2 rounded border-l border-cyan-800/50">
+            <div className="flex justify-between items-center mb-0.5">
+              <span className="text-cyan-300 font-bold">{m.key}</span>
+              {editingKey !== m.key && (
+                <span className="flex gap-2 text-[10px] opacity-0 group-hover:opacity-100 transition-opacity">
+                  <button onClick={() => startEdit(m)} className="text-slate-500 hover:text-cyan-400">编辑</button>
+                  <button onClick={() => onForget(m.key)} className="text-slate-500 hover:text-red-400">删除</button>
+                </span>
+              )}
+            </div>
+            {editingKey === m.key ? (
+              <div className="flex gap-1">
+                <input
+                  autoFocus
+                  value={editValue}
+                  onChange={(e) => setEditValue(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') commitEdit();
+                    if (e.key === 'Escape') setEditingKey(null);
+                  }}
+                  className="flex-1 min-w-0 bg-slate-800 text-cyan-100 border border-slate-700 rounded px-1 py-0.5 text-xs focus:border-cyan-500 outline-none"
+                />
+                <button onClick={commitEdit} className="text-[10px] text-cyan-400 hover:text-white">保存</button>
+              </div>
+            ) : (
+              <div className="text-slate-400 leading-tight">{m.value}</div>
+            )}
+          </div>
+        ))}
+        {memories.length === 0 && <div className="text-center text-slate-700 text-xs mt-4">无数据</div>}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,26 @@
+import React, { useEffect, useState } from 'react';
+
+interface RecordingIndicatorProps {
+  since: number; // Date.now() when recording started
+}
+
+const formatElapsed = (ms: number) => {
+  const total = Math.floor(ms / 1000);
+  return `${String(Math.floor(total / 60)).padStart(2, '0')}:${String(total % 60).padStart(2, '0')}`;
+};
+
+export const RecordingIndicator: React.FC<RecordingIndicatorProps> = ({ since }) => {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(Date.now()), 500);
+    return () => window.clearInterval(timer);
+  }, []);
+
+  return (
+    <span className="flex items-center gap-1.5 text-[10px] bg-black/60 px-2 py-1 border border-red-600 text-red-400 font-mono" title="正在录制麦克风与 Jarvis 音频">
+      <span className="w-2 h-2 rounded-full bg-red-500 animate-pulse" />
+      REC {formatElapsed(now - since)}
+    </span>
+  );
+};
@@ -0,0 +1,75 @@
+import React from 'react';
+import { ReminderItem } from '../types';
+
+interface ReminderPanelProps {
+  reminders: ReminderItem[];
+  onSnooze: (id: string, minutes: number) => void;
+  onCancel: (id: string) => void;
+  onDismiss: (id: string) => void;
+}
+
+const formatDue = (dueAt: number) => {
+  const due = new Date(dueAt);
+  const sameDay = due.toDateString() === new Date().toDateString();
+  const time = due.toLocaleTimeString('zh-CN', { hour: '2-digit', minute: '2-digit' });
+  return sameDay ? time : `${due.getMonth() + 1}/${due.getDate()} ${time}`;
+};
+
+export const ReminderPanel: React.FC<ReminderPanelProps> = ({ reminders, onSnooze, onCancel, onDismiss }) => {
+  const pending = reminders.filter(r => r.status === 'pending').length;
+  const fired = reminders.length - pending;
+
+  return (
+    <div className="h-40 shrink-0 flex flex-col bg-slate-900/30 border border-slate-800 rounded-lg p-3">
+      <div className="text-[10px] uppercase border-b border-slate-800 pb-2 mb-2 text-slate-500 flex justify-between">
+        <span>Reminders</span>
+        <span className="text-cyan-600">
+          {fired > 0 && <span className="text-yellow-400 mr-2">{fired} DUE</span>}
+          {pending} PENDING
+        </span>
+      </div>
+      <div className="flex-1 overflow-y-auto space-y-1 pr-1 scrollbar-thin">
+        {reminders.map(r => (
+          <div
+            key={r.id}
+            className={`text-xs p-2 rounded border-l flex justify-between items-start gap-2 ${
+              r.status === 'fired' ? 'bg-yellow-900/20 border-yellow-400' : 'bg-slate-800/40 border-yellow-700/50'
+            }`}
+          >
+            <div className="min-w-0">
+              <div className="text-yellow-400 font-bold mb-0.5">
+                {formatDue(r.dueAt)}
+                {r.status === 'fired' && <span className="ml-1 animate-pulse">● 已到时</span>}
+              </div>
+              <div className="text-slate-400 leading-tight break-words">{r.task}</div>
+            </div>
+            <div className="flex gap-1 shrink-0">
+              <button
+                onClick={() => onSnooze(r.id, 10)}
+                className="text-[10px] px-1.5 py-0.5 border border-slate-700 text-slate-400 rounded hover:border-cyan-500 hover:text-cyan-400"
+              >
+                +10分
+              </button>
+              {r.status === 'fired' ? (
+                <button
+                  onClick={() => onDismiss(r.id)}
+                  className="text-[10px] px-1.5 py-0.5 border border-slate-700 text-slate-400 rounded hover:border-green-500 hover:text-green-400"
+                >
+                  知道了
+                </button>
+              ) : (
+                <button
+                  onClick={() => onCancel(r.id)}
+                  className="text-[10px] px-1.5 py-0.5 border border-slate-700 text-slate-400 rounded hover:border-red-500 hover:text-red-400"
+                >
+                  取消
+                </button>
+              )}
+            </div>
+          </div>
+        ))}
+        {reminders.length === 0 && <div className="text-center text-slate-700 text-xs mt-4">无待办提醒</div>}
+      </div>
+    </div>
+  );
+};
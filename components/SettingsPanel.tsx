@@ -0,0 +1,181 @@
+import React, { useEffect, useState } from 'react';
+import { SessionSettings, VideoSettings } from '../types';
+import {
+  DEFAULT_SESSION_SETTINGS, LANGUAGE_OPTIONS, MEMORY_PLACEHOLDER, MODEL_OPTIONS, SessionSettingsService, VOICE_OPTIONS,
+} from '../utils/sessionSettings';
+import { DEFAULT_VIDEO_SETTINGS, VideoSettingsService } from '../utils/frameScheduler';
+import { RECORDING_LAYOUT_LABELS, RecordingLayout } from '../utils/sessionRecorder';
+
+interface SettingsPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSave: (session: SessionSettings, video: VideoSettings) => void;
+}
+
+const inputClass = 'w-full bg-slate-800 text-cyan-100 border border-slate-700 rounded p-1.5 text-xs focus:border-cyan-500 outline-none';
+const labelClass = 'block text-[10px] text-slate-400 uppercase mb-1';
+
+const clamp = (value: number, min: number, max: number, fallback: number) =>
+  Number.isFinite(value) && value > 0 ? Math.min(max, Math.max(min, value)) : fallback;
+
+// Number inputs can be left empty or out of range; the frame scheduler needs sane values
+const sanitizeVideo = (video: VideoSettings): VideoSettings => {
+  const baseFps = clamp(video.baseFps, 0.2, 5, DEFAULT_VIDEO_SETTINGS.baseFps);
+  return {
+    ...video,
+    baseFps,
+    boostFps: Math.max(baseFps, clamp(video.boostFps, 0.2, 10, DEFAULT_VIDEO_SETTINGS.boostFps)),
+    maxDimension: Math.round(clamp(video.maxDimension, 256, 1920, DEFAULT_VIDEO_SETTINGS.maxDimension)),
+  };
+};
+
+export const SettingsPanel: React.FC<SettingsPanelProps> = ({ isOpen, onClose, onSave }) => {
+  const [session, setSession] = useState<SessionSettings>(DEFAULT_SESSION_SETTINGS);
+  const [video, setVideo] = useState<VideoSettings>(DEFAULT_VIDEO_SETTINGS);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setSession(SessionSettingsService.load());
+    setVideo(VideoSettingsService.load());
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const patchSession = (patch: Partial<SessionSettings>) => setSession(prev => ({ ...prev, ...patch }));
+  const patchVideo = (patch: Partial<VideoSettings>) => setVideo(prev => ({ ...prev, ...patch }));
+
+  const resetToDefaults = () => {
+    setSession(DEFAULT_SESSION_SETTINGS);
+    setVideo(DEFAULT_VIDEO_SETTINGS);
+  };
+
+  // Keeps a saved custom model selectable even if it's not in the preset list
+  const models = session.model in MODEL_OPTIONS ? MODEL_OPTIONS : { ...MODEL_OPTIONS, [session.model]: session.model };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/90 backdrop-blur-sm">
+      <div className="bg-slate-900 border border-cyan-500/50 p-6 rounded-lg w-full max-w-2xl max-h-[85vh] flex flex-col shadow-[0_0_50px_rgba(6,182,212,0.2)]">
+        <div className="flex justify-between items-center mb-4 border-b border-slate-800 pb-2">
+          <h2 className="text-xl font-bold text-cyan-400 tracking-widest uppercase">系统设置</h2>
+          <span className="text-[10px] text-slate-500">下次连接时生效</span>
+        </div>
+
+        <div className="flex-1 overflow-y-auto space-y-4 mb-4 pr-1 scrollbar-thin">
+          <div className="grid grid-cols-3 gap-3">
+            <div>
+              <label className={labelClass}>模型</label>
+              <select value={session.model} onChange={(e) => patchSession({ model: e.target.value })} className={inputClass}>
+                {Object.entries(models).map(([id, label]) => <option key={id} value={id}>{label}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>语音</label>
+              <select value={session.voice} onChange={(e) => patchSession({ voice: e.target.value })} className={inputClass}>
+                {VOICE_OPTIONS.map(v => <option key={v} value={v}>{v}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>回答语言</label>
+              <select value={session.language} onChange={(e) => patchSession({ language: e.target.value })} className={inputClass}>
+                {Object.entries(LANGUAGE_OPTIONS).map(([code, label]) => <option key={code} value={code}>{label}</option>)}
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <label className={labelClass}>人设 / 系统提示 ({MEMORY_PLACEHOLDER} 处插入记忆)</label>
+            <textarea
+              value={session.persona}
+              onChange={(e) => patchSession({ persona: e.target.value })}
+              rows={6}
+              className={`${inputClass} font-mono resize-y`}
+            />
+            {!session.persona.includes(MEMORY_PLACEHOLDER) && (
+              <div className="text-[10px] text-yellow-500 mt-1">未包含 {MEMORY_PLACEHOLDER}，记忆将追加在末尾。</div>
+            )}
+          </div>
+
+          <div className="grid grid-cols-4 gap-3">
+            <div>
+              <label className={labelClass}>基础帧率 (fps)</label>
+              <input
+                type="number" min={0.2} max={5} step={0.1}
+                value={video.baseFps}
+                onChange={(e) => patchVideo({ baseFps: Number(e.target.value) })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>加速帧率 (fps)</label>
+              <input
+                type="number" min={0.2} max={10} step={0.1}
+                value={video.boostFps}
+                onChange={(e) => patchVideo({ boostFps: Number(e.target.value) })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>最大边长 (px)</label>
+              <input
+                type="number" min={256} max={1920} step={64}
+                value={video.maxDimension}
+                onChange={(e) => patchVideo({ maxDimension: Number(e.target.value) })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>JPEG 质量 ({Math.round(video.jpegQuality * 100)}%)</label>
+              <input
+                type="range" min={0.1} max={1} step={0.05}
+                value={video.jpegQuality}
+                onChange={(e) => patchVideo({ jpegQuality: Number(e.target.value) })}
+                className="w-full accent-cyan-500"
+              />
+            </div>
+          </div>
+
+          <div className="flex gap-6 text-xs text-slate-300">
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={session.echoCancellation}
+                onChange={(e) => patchSession({ echoCancellation: e.target.checked })}
+                className="accent-cyan-500"
+              />
+              回声消除
+            </label>
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={session.noiseSuppression}
+                onChange={(e) => patchSession({ noiseSuppression: e.target.checked })}
+                className="accent-cyan-500"
+              />
+              降噪
+            </label>
+            <label className="flex items-center gap-2 ml-auto">
+              录音导出
+              <select
+                value={session.recordingLayout}
+                onChange={(e) => patchSession({ recordingLayout: e.target.value as RecordingLayout })}
+                className="bg-slate-800 text-cyan-100 border border-slate-700 rounded p-1 text-xs focus:border-cyan-500 outline-none"
+              >
+                {(Object.keys(RECORDING_LAYOUT_LABELS) as RecordingLayout[]).map(l => <option key={l} value={l}>{RECORDING_LAYOUT_LABELS[l]}</option>)}
+              </select>
+            </label>
+          </div>
+        </div>
+
+        <div className="flex justify-between gap-3">
+          <button onClick={resetToDefaults} className="px-4 py-2 text-slate-400 hover:text-red-400 text-sm uppercase">恢复默认</button>
+          <div className="flex gap-3">
+            <button onClick={onClose} className="px-4 py-2 text-slate-400 hover:text-white text-sm uppercase">取消</button>
+            <button onClick={() => onSave(session, sanitizeVideo(video))} className="px-6 py-2 bg-cyan-900/40 text-cyan-400 border border-cyan-500/50 rounded hover:bg-cyan-500 hover:text-black transition-all font-bold text-sm uppercase shadow-[0_0_15px_rgba(6,182,212,0.3)]">
+              保存
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,93 @@
+import React, { useEffect, useState } from 'react';
+import { LogEntry, Snapshot } from '../types';
+import { SnapshotService } from '../utils/snapshotService';
+import { downloadBlob, fileTimestamp } from '../utils/download';
+
+interface SnapshotGalleryProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onLog: (message: string, type?: LogEntry['type']) => void;
+}
+
+export const SnapshotGallery: React.FC<SnapshotGalleryProps> = ({ isOpen, onClose, onLog }) => {
+  const [snapshots, setSnapshots] = useState<Snapshot[]>([]);
+  const [urls, setUrls] = useState<Record<string, string>>({});
+  const [selected, setSelected] = useState<Snapshot | null>(null);
+
+  const refresh = () => SnapshotService.list().then(setSnapshots).catch(e => onLog(`快照加载失败: ${e}`, 'error'));
+
+  useEffect(() => {
+    if (!isOpen) return;
+    refresh();
+    setSelected(null);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isOpen]);
+
+  // Object URLs live as long as the list they were made for
+  useEffect(() => {
+    const next: Record<string, string> = {};
+    snapshots.forEach(s => { next[s.id] = URL.createObjectURL(s.image); });
+    setUrls(next);
+    return () => Object.values(next).forEach(url => URL.revokeObjectURL(url));
+  }, [snapshots]);
+
+  if (!isOpen) return null;
+
+  const download = (s: Snapshot) => downloadBlob(s.image, `jarvis-snapshot_${fileTimestamp(new Date(s.createdAt))}.jpg`);
+
+  const remove = async (s: Snapshot) => {
+    try {
+      await SnapshotService.remove(s.id);
+      if (selected?.id === s.id) setSelected(null);
+    } catch (e) {
+      onLog(`快照删除失败: ${e}`, 'error');
+    }
+    refresh();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/90 backdrop-blur-sm">
+      <div className="bg-slate-900 border border-cyan-500/50 p-6 rounded-lg w-full max-w-5xl h-[85vh] flex flex-col shadow-[0_0_50px_rgba(6,182,212,0.2)]">
+        <div className="flex justify-between items-center mb-4 border-b border-slate-800 pb-2">
+          <h2 className="text-xl font-bold text-cyan-400 tracking-widest uppercase">视觉快照 ({snapshots.length})</h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-white text-sm uppercase">关闭</button>
+        </div>
+
+        {selected ? (
+          <div className="flex-1 flex flex-col min-h-0">
+            <div className="flex justify-between items-center text-[10px] uppercase text-slate-500 mb-2">
+              <span className="truncate">
+                {new Date(selected.createdAt).toLocaleString('zh-CN')} · {selected.width}×{selected.height}
+                {selected.labels.length > 0 && ` · ${selected.labels.join(', ')}`}
+              </span>
+              <div className="flex gap-3 shrink-0">
+                <button onClick={() => setSelected(null)} className="hover:text-cyan-400">返回</button>
+                <button onClick={() => download(selected)} className="hover:text-cyan-400">下载</button>
+                <button onClick={() => remove(selected)} className="hover:text-red-400">删除</button>
+              </div>
+            </div>
+            <img src={urls[selected.id]} alt="" className="flex-1 min-h-0 object-contain bg-black rounded border border-slate-800" />
+          </div>
+        ) : (
+          <div className="flex-1 overflow-y-auto grid grid-cols-2 md:grid-cols-4 gap-3 content-start pr-1 scrollbar-thin">
+            {snapshots.map(s => (
+              <div key={s.id} className="group relative bg-black border border-slate-800 rounded overflow-hidden hover:border-cyan-500">
+                <button onClick={() => setSelected(s)} className="block w-full">
+                  <img src={urls[s.id]} alt="" className="w-full aspect-video object-cover" />
+                </button>
+                <div className="flex justify-between items-center text-[10px] text-slate-500 px-2 py-1">
+                  <span className="truncate">{new Date(s.createdAt).toLocaleString('zh-CN')}</span>
+                  <div className="flex gap-2 shrink-0 opacity-0 group-hover:opacity-100">
+                    <button onClick={() => download(s)} className="hover:text-cyan-400">下载</button>
+                    <button onClick={() => remove(s)} className="hover:text-red-400">删除</button>
+                  </div>
+                </div>
+              </div>
+            ))}
+            {snapshots.length === 0 && <div className="col-span-full text-center text-slate-700 text-xs mt-4">暂无快照，点击视频上的“快照”按钮拍摄</div>}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
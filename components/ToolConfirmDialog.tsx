@@ -0,0 +1,64 @@
+import React, { useEffect, useState } from 'react';
+
+export interface ConfirmationRequest {
+  id: string;
+  tool: string;
+  args: Record<string, unknown>;
+  reason: string;
+  expiresAt: number;
+  voiceApproval: boolean; // Whether saying "确认" approves, or only clicking does
+}
+
+interface ToolConfirmDialogProps {
+  request: ConfirmationRequest | null;
+  onDecide: (approved: boolean) => void;
+}
+
+export const ToolConfirmDialog: React.FC<ToolConfirmDialogProps> = ({ request, onDecide }) => {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    if (!request) return;
+    const timer = window.setInterval(() => setNow(Date.now()), 250);
+    return () => window.clearInterval(timer);
+  }, [request]);
+
+  if (!request) return null;
+
+  const secondsLeft = Math.max(0, Math.ceil((request.expiresAt - now) / 1000));
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm">
+      <div className="bg-slate-900 border border-red-500/60 p-6 rounded-lg w-full max-w-md shadow-[0_0_50px_rgba(239,68,68,0.25)]">
+        <div className="flex justify-between items-center mb-4 border-b border-slate-800 pb-2">
+          <h2 className="text-lg font-bold text-red-400 tracking-widest uppercase">需要确认</h2>
+          <span className="text-[10px] text-slate-500 font-mono">{secondsLeft}s</span>
+        </div>
+
+        <div className="text-sm text-slate-200 mb-2">Jarvis 请求执行敏感操作: <span className="text-red-300 font-bold">{request.reason}</span></div>
+        <div className="text-[10px] uppercase text-slate-500 mb-1">{request.tool}</div>
+        <pre className="text-xs text-slate-400 bg-black/40 border border-slate-800 rounded p-2 mb-4 whitespace-pre-wrap break-all max-h-40 overflow-y-auto">
+          {JSON.stringify(request.args, null, 2)}
+        </pre>
+
+        <div className="flex gap-3">
+          <button
+            onClick={() => onDecide(false)}
+            className="flex-1 py-2 border border-slate-600 text-slate-300 rounded hover:border-white hover:text-white uppercase text-sm"
+          >
+            拒绝
+          </button>
+          <button
+            onClick={() => onDecide(true)}
+            className="flex-1 py-2 border border-red-500 text-red-400 rounded hover:bg-red-500/20 uppercase text-sm font-bold"
+          >
+            批准
+          </button>
+        </div>
+        <div className="text-[10px] text-slate-500 mt-3 text-center">
+          {request.voiceApproval ? '也可以直接说“确认”或“取消”，超时将自动拒绝' : '此操作只能在屏幕上批准；说“取消”可拒绝，超时将自动拒绝'}
+        </div>
+      </div>
+    </div>
+  );
+};
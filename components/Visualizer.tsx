@@ -1,61 +1,200 @@
-import React, { useEffect, useRef } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
+import { MIC_STATUS_LABELS, MicStatus, createMicMonitor, measureLevel } from '../utils/audioLevel';
+
+export type VisualizerMode = 'bars' | 'scope' | 'radial';
+
+const MODE_LABELS: Record<VisualizerMode, string> = {
+  bars: '频谱',
+  scope: '波形',
+  radial: '反应堆',
+};
+
+const MODE_KEY = 'jarvis_visualizer_mode';
+
+const OUTPUT_COLOR = '34, 211, 238'; // Jarvis cyan
+const INPUT_COLOR = '251, 191, 36';  // Amber for the user
+
+const MIC_STATUS_CLASSES: Record<MicStatus, string> = {
+  ok: 'text-green-400 border-green-700',
+  clipping: 'text-red-400 border-red-600 animate-pulse',
+  silent: 'text-slate-400 border-slate-600',
+};
 
 interface VisualizerProps {
-  analyser: AnalyserNode | null;
+  input: AnalyserNode | null;  // Mic, on the capture path
+  output: AnalyserNode | null; // Jarvis's speech
   isActive: boolean;
 }
 
-export const Visualizer: React.FC<VisualizerProps> = ({ analyser, isActive }) => {
+interface Channel {
+  analyser: AnalyserNode;
+  freq: Uint8Array;
+  wave: Float32Array;
+  color: string;
+}
+
+const loadMode = (): VisualizerMode => {
+  const stored = localStorage.getItem(MODE_KEY);
+  return stored && stored in MODE_LABELS ? stored as VisualizerMode : 'bars';
+};
+
+const channelFor = (analyser: AnalyserNode | null, color: string): Channel | null => analyser && {
+  analyser,
+  freq: new Uint8Array(analyser.frequencyBinCount),
+  wave: new Float32Array(analyser.fftSize),
+  color,
+};
+
+// Output grows up from the centre line, input down, so both share the strip
+function drawBars(ctx: CanvasRenderingContext2D, w: number, h: number, channels: [Channel | null, Channel | null]) {
+  const mid = h / 2;
+  const [input, output] = channels;
+  [output, input].forEach((ch, side) => {
+    if (!ch) return;
+    // The top half of the spectrum is mostly empty for speech
+    const bins = Math.floor(ch.freq.length / 2);
+    const barWidth = w / bins;
+    ctx.fillStyle = `rgb(${ch.color})`;
+    for (let i = 0; i < bins; i++) {
+      const barHeight = (ch.freq[i] / 255) * (mid - 2);
+      const y = side === 0 ? mid - barHeight : mid;
+      ctx.fillRect(i * barWidth, y, Math.max(1, barWidth - 1), barHeight);
+    }
+  });
+  ctx.fillStyle = 'rgba(148, 163, 184, 0.2)';
+  ctx.fillRect(0, mid, w, 1);
+}
+
+function drawScope(ctx: CanvasRenderingContext2D, w: number, h: number, channels: [Channel | null, Channel | null]) {
+  channels.forEach(ch => {
+    if (!ch) return;
+    ctx.beginPath();
+    ctx.strokeStyle = `rgb(${ch.color})`;
+    ctx.lineWidth = 1.5;
+    const step = w / (ch.wave.length - 1);
+    for (let i = 0; i < ch.wave.length; i++) {
+      const y = h / 2 - ch.wave[i] * (h / 2 - 4);
+      if (i === 0) ctx.moveTo(0, y);
+      else ctx.lineTo(i * step, y);
+    }
+    ctx.stroke();
+  });
+}
+
+// Output spikes around the outer ring, input around the inner one; the core glows with output level
+function drawRadial(ctx: CanvasRenderingContext2D, w: number, h: number, channels: [Channel | null, Channel | null], outputRms: number) {
+  const cx = w / 2;
+  const cy = h / 2;
+  const radius = Math.min(w, h) / 2 - 4;
+  const [input, output] = channels;
+
+  const core = radius * 0.25;
+  const glow = ctx.createRadialGradient(cx, cy, 0, cx, cy, core * (1 + outputRms * 4));
+  glow.addColorStop(0, `rgba(${OUTPUT_COLOR}, ${0.4 + Math.min(0.6, outputRms * 6)})`);
+  glow.addColorStop(1, `rgba(${OUTPUT_COLOR}, 0)`);
+  ctx.fillStyle = glow;
+  ctx.beginPath();
+  ctx.arc(cx, cy, core * (1 + outputRms * 4), 0, Math.PI * 2);
+  ctx.fill();
+
+  const ring = (ch: Channel | null, inner: number, length: number) => {
+    if (!ch) return;
+    const bins = Math.floor(ch.freq.length / 2);
+    ctx.strokeStyle = `rgb(${ch.color})`;
+    ctx.lineWidth = Math.max(1, (Math.PI * 2 * inner) / bins / 2);
+    ctx.beginPath();
+    for (let i = 0; i < bins; i++) {
+      const angle = (i / bins) * Math.PI * 2 - Math.PI / 2;
+      const r2 = inner + (ch.freq[i] / 255) * length;
+      ctx.moveTo(cx + Math.cos(angle) * inner, cy + Math.sin(angle) * inner);
+      ctx.lineTo(cx + Math.cos(angle) * r2, cy + Math.sin(angle) * r2);
+    }
+    ctx.stroke();
+  };
+  ring(input, radius * 0.3, radius * 0.25);
+  ring(output, radius * 0.6, radius * 0.4);
+}
+
+export const Visualizer: React.FC<VisualizerProps> = ({ input, output, isActive }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const animationRef = useRef<number | null>(null);
+  const [mode, setMode] = useState<VisualizerMode>(loadMode);
+  const [micStatus, setMicStatus] = useState<MicStatus | null>(null);
 
+  const changeMode = (next: VisualizerMode) => {
+    setMode(next);
+    localStorage.setItem(MODE_KEY, next);
+  };
+
+  // Match the backing store to the laid-out size so lines stay crisp on high-DPI screens
   useEffect(() => {
+    const container = containerRef.current;
     const canvas = canvasRef.current;
-    if (!canvas || !analyser) return;
-
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
+    if (!container || !canvas) return;
+    const resize = () => {
+      const dpr = window.devicePixelRatio || 1;
+      const { width, height } = container.getBoundingClientRect();
+      canvas.width = Math.max(1, Math.round(width * dpr));
+      canvas.height = Math.max(1, Math.round(height * dpr));
+    };
+    resize();
+    const observer = new ResizeObserver(resize);
+    observer.observe(container);
+    // devicePixelRatio changes when the window moves between screens or the page is zoomed
+    window.addEventListener('resize', resize);
+    return () => {
+      observer.disconnect();
+      window.removeEventListener('resize', resize);
+    };
+  }, []);
 
-    const bufferLength = analyser.frequencyBinCount;
-    const dataArray = new Uint8Array(bufferLength);
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    const channels: [Channel | null, Channel | null] = [channelFor(input, INPUT_COLOR), channelFor(output, OUTPUT_COLOR)];
+    const monitor = createMicMonitor();
+    let shownStatus: MicStatus | null = null;
+    const showStatus = (status: MicStatus | null) => {
+      if (status === shownStatus) return;
+      shownStatus = status;
+      setMicStatus(status);
+    };
 
     const draw = () => {
       animationRef.current = requestAnimationFrame(draw);
+      const dpr = window.devicePixelRatio || 1;
+      const w = canvas.width / dpr;
+      const h = canvas.height / dpr;
+      ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+      ctx.clearRect(0, 0, w, h);
 
       if (!isActive) {
-        ctx.clearRect(0, 0, canvas.width, canvas.height);
-        // Draw a dormant "pulse" line
+        // Dormant "pulse" line
         ctx.beginPath();
         ctx.strokeStyle = '#1e293b';
         ctx.lineWidth = 2;
-        ctx.moveTo(0, canvas.height / 2);
-        ctx.lineTo(canvas.width, canvas.height / 2);
+        ctx.moveTo(0, h / 2);
+        ctx.lineTo(w, h / 2);
         ctx.stroke();
+        showStatus(null);
         return;
       }
 
-      analyser.getByteFrequencyData(dataArray);
-
-      ctx.fillStyle = '#020617'; // Match bg
-      ctx.fillRect(0, 0, canvas.width, canvas.height);
-
-      const barWidth = (canvas.width / bufferLength) * 2.5;
-      let barHeight;
-      let x = 0;
+      channels.forEach(ch => {
+        if (!ch) return;
+        ch.analyser.getByteFrequencyData(ch.freq);
+        ch.analyser.getFloatTimeDomainData(ch.wave);
+      });
 
-      for (let i = 0; i < bufferLength; i++) {
-        barHeight = dataArray[i] / 2;
+      const [inCh, outCh] = channels;
+      showStatus(inCh ? monitor.update(measureLevel(inCh.wave), performance.now()) : null);
 
-        // Jarvis Cyan Color
-        const r = 34;
-        const g = 211;
-        const b = 238;
-        
-        ctx.fillStyle = `rgb(${r},${g},${b})`;
-        ctx.fillRect(x, canvas.height - barHeight, barWidth, barHeight);
-
-        x += barWidth + 1;
-      }
+      if (mode === 'bars') drawBars(ctx, w, h, channels);
+      else if (mode === 'scope') drawScope(ctx, w, h, channels);
+      else drawRadial(ctx, w, h, channels, outCh ? measureLevel(outCh.wave).rms : 0);
     };
 
     draw();
@@ -63,19 +202,30 @@ export const Visualizer: React.FC<VisualizerProps> = ({ analyser, isActive }) =>
     return () => {
       if (animationRef.current) cancelAnimationFrame(animationRef.current);
     };
-  }, [analyser, isActive]);
+  }, [input, output, isActive, mode]);
 
   return (
-    <div className="w-full h-32 border border-slate-800 bg-slate-900/50 rounded-lg overflow-hidden relative">
-      <div className="absolute top-2 left-2 text-xs text-cyan-500 font-bold tracking-widest uppercase">
-        听觉频谱分析
+    <div ref={containerRef} className="w-full h-full border border-slate-800 bg-slate-900/50 rounded-lg overflow-hidden relative">
+      <canvas ref={canvasRef} className="absolute inset-0 w-full h-full" />
+      <div className="absolute top-2 left-2 flex items-center gap-3 text-[10px] font-bold tracking-widest uppercase">
+        <span className="text-xs text-cyan-500">听觉频谱分析</span>
+        <span style={{ color: `rgb(${INPUT_COLOR})` }}>■ IN</span>
+        <span style={{ color: `rgb(${OUTPUT_COLOR})` }}>■ OUT</span>
+        {micStatus && (
+          <span className={`px-1.5 py-0.5 border bg-black/60 ${MIC_STATUS_CLASSES[micStatus]}`}>{MIC_STATUS_LABELS[micStatus]}</span>
+        )}
+      </div>
+      <div className="absolute top-2 right-2 flex text-[10px] bg-black/60 border border-slate-700">
+        {(Object.keys(MODE_LABELS) as VisualizerMode[]).map(m => (
+          <button
+            key={m}
+            onClick={() => changeMode(m)}
+            className={`px-2 py-0.5 ${mode === m ? 'bg-cyan-900/60 text-white' : 'text-slate-400 hover:text-white'}`}
+          >
+            {MODE_LABELS[m]}
+          </button>
+        ))}
       </div>
-      <canvas 
-        ref={canvasRef} 
-        width={300} 
-        height={128} 
-        className="w-full h-full" 
-      />
     </div>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,47 @@
+import { createRateLimiter, parseUserLimits } from './rateLimiter.ts';
+import { createGeminiIssuer, createStubIssuer } from './tokenIssuer.ts';
+import { createTokenServer, TOKEN_PATH } from './tokenServer.ts';
+
+// Environment (also read from .env.local when present):
+//   GEMINI_API_KEY             The real key; required unless TOKEN_ISSUER=stub
+//   TOKEN_ISSUER               'gemini' (default) or 'stub' for fake tokens
+//   TOKEN_SERVER_HOST          Interface to bind, default 127.0.0.1
+//   TOKEN_SERVER_PORT          Default 8787
+//   TOKEN_ALLOWED_ORIGINS      Comma-separated; default the Vite dev server
+//   TOKEN_ALLOW_NO_ORIGIN      '1' to accept requests without an Origin header
+//   TOKEN_TRUSTED_USER_HEADER  Identity header set by an authenticating proxy; unset limits per address
+//   TOKEN_RATE_LIMIT           Tokens per user per window, default 10
+//   TOKEN_RATE_WINDOW_MS       Default 60000
+//   TOKEN_USER_LIMITS          Per-user overrides, e.g. "alice=30,ip:10.0.0.5=2"
+
+try {
+  process.loadEnvFile('.env.local');
+} catch (_) {
+  // No .env.local; the environment alone is fine
+}
+
+const env = process.env;
+const host = env.TOKEN_SERVER_HOST || '127.0.0.1';
+const port = Number(env.TOKEN_SERVER_PORT || 8787);
+
+const issuer = env.TOKEN_ISSUER === 'stub' ? createStubIssuer() : env.GEMINI_API_KEY ? createGeminiIssuer(env.GEMINI_API_KEY) : null;
+if (!issuer) {
+  console.error('缺少 GEMINI_API_KEY。请在 .env.local 中设置，或使用 TOKEN_ISSUER=stub 运行本地替身。');
+  process.exit(1);
+}
+
+const limiter = createRateLimiter(
+  { limit: Number(env.TOKEN_RATE_LIMIT || 10), windowMs: Number(env.TOKEN_RATE_WINDOW_MS || 60000) },
+  parseUserLimits(env.TOKEN_USER_LIMITS)
+);
+
+const allowedOrigins = (env.TOKEN_ALLOWED_ORIGINS || 'http://localhost:3000,http://127.0.0.1:3000').split(',').map(s => s.trim()).filter(Boolean);
+
+createTokenServer({
+  issuer,
+  limiter,
+  allowedOrigins,
+  allowMissingOrigin: env.TOKEN_ALLOW_NO_ORIGIN === '1',
+  trustedUserHeader: env.TOKEN_TRUSTED_USER_HEADER || undefined,
+  log: message => console.log(`[${new Date().toISOString()}] ${message}`),
+}).listen(port, host, () => console.log(`令牌服务器已启动: http://${host}:${port}${TOKEN_PATH} (签发方: ${issuer.name})`));
@@ -0,0 +1,70 @@
+export interface RateLimitRule {
+  limit: number;    // Requests allowed per window
+  windowMs: number;
+}
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  remaining: number;
+  retryAfterMs: number; // 0 when allowed
+}
+
+export interface RateLimiter {
+  check: (userId: string, now?: number) => RateLimitDecision;
+  /** Number of users currently tracked. */
+  size: () => number;
+}
+
+/**
+ * Sliding-window limiter keyed by user. `overrides` gives specific users their own limit.
+ * Users with no hits left in their window are dropped, so a stream of one-off keys can't grow memory.
+ */
+export function createRateLimiter(defaults: RateLimitRule, overrides: Record<string, number> = {}): RateLimiter {
+  const hits = new Map<string, number[]>();
+  let lastSweep = 0;
+
+  // Hits are appended in time order, so a user is idle once their newest hit has aged out
+  const sweep = (now: number) => {
+    if (now - lastSweep < defaults.windowMs) return;
+    lastSweep = now;
+    hits.forEach((times, user) => {
+      if (now - times[times.length - 1] >= defaults.windowMs) hits.delete(user);
+    });
+  };
+
+  return {
+    check: (userId, now = Date.now()) => {
+      sweep(now);
+      const limit = overrides[userId] ?? defaults.limit;
+      const recent = (hits.get(userId) || []).filter(t => now - t < defaults.windowMs);
+
+      if (recent.length >= limit) {
+        if (recent.length > 0) hits.set(userId, recent);
+        else hits.delete(userId);
+        // The oldest hit in the window is the next to age out
+        const retryAfterMs = recent.length > 0 ? defaults.windowMs - (now - recent[0]) : defaults.windowMs;
+        return { allowed: false, remaining: 0, retryAfterMs };
+      }
+
+      recent.push(now);
+      hits.set(userId, recent);
+      return { allowed: true, remaining: limit - recent.length, retryAfterMs: 0 };
+    },
+
+    size: () => hits.size,
+  };
+}
+
+/**
+ * Parses per-user limits written as "alice=20,bob=5".
+ */
+export function parseUserLimits(spec: string | undefined): Record<string, number> {
+  const limits: Record<string, number> = {};
+  (spec || '').split(',').map(s => s.trim()).filter(Boolean).forEach(entry => {
+    const [user, value] = entry.split('=').map(s => s.trim());
+    const limit = Number(value);
+    if (!user || !Number.isInteger(limit) || limit < 0) throw new Error(`无效的用户限额: ${entry}`);
+    limits[user] = limit;
+  });
+  return limits;
+}
@@ -0,0 +1,59 @@
+import { GoogleGenAI } from '@google/genai';
+
+export interface IssuedToken {
+  token: string;
+  expiresAt: string;           // Messages on sessions opened with the token are rejected after this
+  newSessionExpiresAt: string; // The token can't open new sessions after this
+}
+
+export interface TokenIssuer {
+  readonly name: string;
+  issue: () => Promise<IssuedToken>;
+}
+
+export interface TokenLifetime {
+  sessionMs: number;    // How long a session opened with the token may run
+  newSessionMs: number; // How long the client has to open the session
+}
+
+export const DEFAULT_TOKEN_LIFETIME: TokenLifetime = {
+  sessionMs: 30 * 60 * 1000,
+  newSessionMs: 60 * 1000,
+};
+
+const expiries = (lifetime: TokenLifetime, now = Date.now()) => ({
+  expiresAt: new Date(now + lifetime.sessionMs).toISOString(),
+  newSessionExpiresAt: new Date(now + lifetime.newSessionMs).toISOString(),
+});
+
+/**
+ * Single-use ephemeral tokens from the Gemini API. The real key never leaves this process.
+ */
+export function createGeminiIssuer(apiKey: string, lifetime: TokenLifetime = DEFAULT_TOKEN_LIFETIME): TokenIssuer {
+  // Ephemeral tokens are only offered on v1alpha
+  const ai = new GoogleGenAI({ apiKey, httpOptions: { apiVersion: 'v1alpha' } });
+
+  return {
+    name: 'gemini',
+    issue: async () => {
+      const { expiresAt, newSessionExpiresAt } = expiries(lifetime);
+      const token = await ai.authTokens.create({
+        config: { uses: 1, expireTime: expiresAt, newSessionExpireTime: newSessionExpiresAt },
+      });
+      if (!token.name) throw new Error('令牌服务返回了空令牌');
+      return { token: token.name, expiresAt, newSessionExpiresAt };
+    },
+  };
+}
+
+/**
+ * Local stand-in that hands out fake tokens without a key or network, for exercising
+ * the server and the client's token handling. The tokens won't open a real Live session.
+ */
+export function createStubIssuer(lifetime: TokenLifetime = DEFAULT_TOKEN_LIFETIME): TokenIssuer {
+  let count = 0;
+  return {
+    name: 'stub',
+    issue: async () => ({ token: `stub-token-${++count}`, ...expiries(lifetime) }),
+  };
+}
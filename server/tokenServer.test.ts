@@ -0,0 +1,134 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { AddressInfo } from 'node:net';
+import type { Server } from 'node:http';
+import { createRateLimiter } from './rateLimiter.ts';
+import { createStubIssuer } from './tokenIssuer.ts';
+import { createTokenServer, TOKEN_PATH } from './tokenServer.ts';
+
+const ORIGIN = 'http://localhost:3000';
+
+const start = async (server: Server) => {
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}${TOKEN_PATH}`;
+};
+
+const stop = (server: Server) => new Promise<void>(resolve => server.close(() => resolve()));
+
+describe('token server', () => {
+  let server: Server;
+  let url: string;
+
+  before(async () => {
+    server = createTokenServer({
+      issuer: createStubIssuer(),
+      limiter: createRateLimiter({ limit: 2, windowMs: 60_000 }),
+      allowedOrigins: [ORIGIN],
+    });
+    url = await start(server);
+  });
+
+  after(() => stop(server));
+
+  it('issues a stub token to an allowed origin', async () => {
+    const res = await fetch(url, { method: 'POST', headers: { Origin: ORIGIN } });
+    assert.equal(res.status, 200);
+    assert.equal(res.headers.get('access-control-allow-origin'), ORIGIN);
+    const body = await res.json();
+    assert.match(body.token, /^stub-token-/);
+    assert.ok(Date.parse(body.expiresAt) > Date.now());
+  });
+
+  it('answers preflight for an allowed origin', async () => {
+    const res = await fetch(url, { method: 'OPTIONS', headers: { Origin: ORIGIN } });
+    assert.equal(res.status, 204);
+    assert.equal(res.headers.get('access-control-allow-origin'), ORIGIN);
+  });
+
+  it('rejects other origins and requests without one', async () => {
+    const foreign = await fetch(url, { method: 'POST', headers: { Origin: 'http://evil.example' } });
+    assert.equal(foreign.status, 403);
+    assert.equal((await foreign.json()).error.code, 'FORBIDDEN_ORIGIN');
+    assert.equal(foreign.headers.get('access-control-allow-origin'), null);
+
+    // Node's fetch sends no Origin unless told to
+    const bare = await fetch(url, { method: 'POST' });
+    assert.equal(bare.status, 403);
+    assert.equal((await bare.json()).error.code, 'FORBIDDEN_ORIGIN');
+  });
+
+  it('limits by client address regardless of claimed identity', async () => {
+    // One token was already issued to this address above
+    const second = await fetch(url, { method: 'POST', headers: { Origin: ORIGIN, 'X-Jarvis-User': 'someone-else' } });
+    assert.equal(second.status, 200);
+
+    const third = await fetch(url, { method: 'POST', headers: { Origin: ORIGIN, 'X-Jarvis-User': 'another-one' } });
+    assert.equal(third.status, 429);
+    assert.ok(Number(third.headers.get('retry-after')) > 0);
+    const body = await third.json();
+    assert.equal(body.error.code, 'RATE_LIMITED');
+    assert.ok(body.error.retryAfterMs > 0);
+  });
+});
+
+describe('token server options', () => {
+  it('accepts requests without an Origin when configured', async () => {
+    const server = createTokenServer({
+      issuer: createStubIssuer(),
+      limiter: createRateLimiter({ limit: 5, windowMs: 60_000 }),
+      allowedOrigins: [ORIGIN],
+      allowMissingOrigin: true,
+    });
+    const url = await start(server);
+    try {
+      const res = await fetch(url, { method: 'POST' });
+      assert.equal(res.status, 200);
+    } finally {
+      await stop(server);
+    }
+  });
+
+  it('limits per user when a trusted proxy header is configured', async () => {
+    const server = createTokenServer({
+      issuer: createStubIssuer(),
+      limiter: createRateLimiter({ limit: 1, windowMs: 60_000 }),
+      allowedOrigins: [ORIGIN],
+      trustedUserHeader: 'X-Authenticated-User',
+    });
+    const url = await start(server);
+    const post = (user: string) => fetch(url, { method: 'POST', headers: { Origin: ORIGIN, 'X-Authenticated-User': user } });
+    try {
+      assert.equal((await post('alice')).status, 200);
+      assert.equal((await post('bob')).status, 200);
+      assert.equal((await post('alice')).status, 429);
+    } finally {
+      await stop(server);
+    }
+  });
+});
+
+describe('rate limiter', () => {
+  it('drops users whose window has emptied', () => {
+    const limiter = createRateLimiter({ limit: 1, windowMs: 1000 });
+    for (let i = 0; i < 100; i++) limiter.check(`user-${i}`, 0);
+    assert.equal(limiter.size(), 100);
+
+    limiter.check('late', 1000);
+    assert.equal(limiter.size(), 1);
+  });
+
+  it('lets a user back in once the window passes', () => {
+    const limiter = createRateLimiter({ limit: 1, windowMs: 1000 });
+    assert.equal(limiter.check('a', 0).allowed, true);
+    const denied = limiter.check('a', 400);
+    assert.equal(denied.allowed, false);
+    assert.equal(denied.retryAfterMs, 600);
+    assert.equal(limiter.check('a', 1000).allowed, true);
+  });
+
+  it('does not store users with a zero limit', () => {
+    const limiter = createRateLimiter({ limit: 1, windowMs: 1000 }, { blocked: 0 });
+    assert.equal(limiter.check('blocked', 0).allowed, false);
+    assert.equal(limiter.size(), 0);
+  });
+});
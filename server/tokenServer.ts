@@ -0,0 +1,107 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import type { RateLimiter } from './rateLimiter.ts';
+import type { TokenIssuer } from './tokenIssuer.ts';
+
+export const TOKEN_PATH = '/token';
+
+export type TokenErrorCode = 'NOT_FOUND' | 'METHOD_NOT_ALLOWED' | 'FORBIDDEN_ORIGIN' | 'RATE_LIMITED' | 'ISSUER_FAILED';
+
+export interface TokenServerOptions {
+  issuer: TokenIssuer;
+  limiter: RateLimiter;
+  /** Origins allowed to call from a browser; '*' allows any. */
+  allowedOrigins: string[];
+  /** Accept requests with no Origin header (curl, other servers). Browsers always send one, so this is off by default. */
+  allowMissingOrigin?: boolean;
+  /**
+   * Header carrying the user's identity, set by an authenticating proxy in front of this server.
+   * Only trusted when configured; otherwise requests are limited per client address.
+   */
+  trustedUserHeader?: string;
+  log?: (message: string) => void;
+}
+
+const sendJson = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8', 'Cache-Control': 'no-store', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+const sendError = (res: ServerResponse, status: number, code: TokenErrorCode, message: string, extra: Record<string, unknown> = {}, headers: Record<string, string> = {}) =>
+  sendJson(res, status, { error: { code, message, ...extra } }, headers);
+
+/**
+ * Who a request counts against: the proxy-asserted user when a trusted header is configured,
+ * otherwise the client address. Nothing the caller chooses freely is used as a key.
+ */
+const userOf = (req: IncomingMessage, trustedUserHeader?: string): string => {
+  if (trustedUserHeader) {
+    const header = req.headers[trustedUserHeader.toLowerCase()];
+    const user = (Array.isArray(header) ? header[0] : header)?.trim();
+    if (user) return user;
+  }
+  return `ip:${req.socket.remoteAddress || 'unknown'}`;
+};
+
+const corsHeaders = (origin: string | undefined, allowed: string[], allowMissing: boolean): Record<string, string> | null => {
+  if (!origin) return allowMissing ? {} : null;
+  if (!allowed.includes('*') && !allowed.includes(origin)) return null;
+  return {
+    'Access-Control-Allow-Origin': origin,
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type',
+    'Vary': 'Origin',
+  };
+};
+
+/**
+ * Issues short-lived Live API tokens so the real key stays on the server.
+ * `POST /token` returns `{ token, expiresAt, newSessionExpiresAt }`; failures return `{ error: { code, message } }`.
+ */
+export function createTokenServer({ issuer, limiter, allowedOrigins, allowMissingOrigin = false, trustedUserHeader, log = () => {} }: TokenServerOptions): Server {
+  return createServer(async (req, res) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+    const cors = corsHeaders(req.headers.origin, allowedOrigins, allowMissingOrigin);
+
+    if (url.pathname === '/health') {
+      sendJson(res, 200, { ok: true, issuer: issuer.name });
+      return;
+    }
+    if (url.pathname !== TOKEN_PATH) {
+      sendError(res, 404, 'NOT_FOUND', `未知路径: ${url.pathname}`);
+      return;
+    }
+    if (!cors) {
+      const origin = req.headers.origin;
+      sendError(res, 403, 'FORBIDDEN_ORIGIN', origin ? `来源不在允许列表中: ${origin}` : '请求缺少 Origin 头');
+      return;
+    }
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204, cors);
+      res.end();
+      return;
+    }
+    if (req.method !== 'POST') {
+      sendError(res, 405, 'METHOD_NOT_ALLOWED', '请使用 POST', {}, { ...cors, Allow: 'POST, OPTIONS' });
+      return;
+    }
+
+    const user = userOf(req, trustedUserHeader);
+    const decision = limiter.check(user);
+    if (!decision.allowed) {
+      const retryAfter = Math.ceil(decision.retryAfterMs / 1000);
+      log(`限流 ${user}，${retryAfter}s 后可重试`);
+      sendError(res, 429, 'RATE_LIMITED', `令牌请求过于频繁，请 ${retryAfter} 秒后重试`, { retryAfterMs: decision.retryAfterMs }, { ...cors, 'Retry-After': String(retryAfter) });
+      return;
+    }
+
+    try {
+      const issued = await issuer.issue();
+      log(`已为 ${user} 签发令牌 (剩余配额 ${decision.remaining})`);
+      sendJson(res, 200, issued, cors);
+    } catch (e) {
+      const message = e instanceof Error ? e.message : String(e);
+      log(`签发失败 ${user}: ${message}`);
+      sendError(res, 502, 'ISSUER_FAILED', `令牌签发失败: ${message}`, {}, cors);
+    }
+  });
+}
@@ -7,24 +7,143 @@ export interface LogEntry {
   source: 'SYSTEM' | 'JARVIS' | 'USER' | 'TOOL';
   message: string;
   type: 'info' | 'success' | 'warning' | 'error';
+  partial?: boolean; // Transcript still streaming in
+  seq: number; // Arrival order, assigned by the log buffer; keeps counting after old entries are evicted
 }
 
+export interface SessionEvent {
+  timestamp: number;
+  kind: 'transcript' | 'tool' | 'detection' | 'log';
+  source: LogEntry['source'];
+  message: string;
+  type?: LogEntry['type'];
+  data?: unknown; // Tool args/result, detection boxes
+}
+
+export interface SessionRecord {
+  id: string;
+  startedAt: number;
+  endedAt?: number;
+  title: string; // First thing the user said
+  events: SessionEvent[];
+}
+
+export interface HistoryRetention {
+  maxSessions: number;
+  maxAgeDays: number;
+}
+
+export type InputMode = 'always' | 'ptt' | 'vad' | 'wake';
+
+export interface InputSettings {
+  mode: InputMode;
+  wakePhrase: string;
+  wakeAllowCloud: boolean; // Opt-in: lets wake mode use a recognizer that streams the mic off-device
+}
+
+export interface VideoSettings {
+  baseFps: number;
+  boostFps: number;        // Rate while the user is speaking or asking about the view
+  maxDimension: number;    // Longest edge of a sent frame, in pixels
+  jpegQuality: number;
+  changeThreshold: number; // Mean per-pixel difference (0-255) that counts as a scene change
+}
+
+// Read once per session at connect time; edits wait for the next session
+export interface SessionSettings {
+  model: string;
+  voice: string;            // Prebuilt voice name
+  language: string;         // BCP-47 code the model should answer in
+  persona: string;          // System prompt template; `{memory}` is replaced with retrieved memories
+  echoCancellation: boolean;
+  noiseSuppression: boolean;
+  recordingLayout: 'stereo' | 'split'; // How session recordings are exported
+}
+
+// Where outgoing video frames come from; 'pip' is the shared screen with the camera inset
+export type VisionSource = 'camera' | 'screen' | 'pip';
+
 export interface MemoryItem {
   key: string;
   value: string;
   addedAt: number;
+  updatedAt?: number;
+  accessCount?: number;
+  lastUsedAt?: number;
+  category?: string;
+  sourceSession?: string; // Session that created the memory
+  confidence?: number;    // 0-1, how sure the model was when saving
+}
+
+export interface ReminderItem {
+  id: string;
+  task: string;
+  time: string; // The phrase as spoken, e.g. "下午5点"
+  dueAt: number;
+  createdAt: number;
+  status: 'pending' | 'fired' | 'dismissed' | 'cancelled';
+}
+
+export type SmartDeviceType = 'light' | 'lock' | 'alarm' | 'thermostat';
+export type DeviceAdapterKind = 'local' | 'http' | 'mqtt';
+
+export interface SmartDevice {
+  id: string;
+  name: string;
+  type: SmartDeviceType;
+  actions: string[];
+  state: string;
+  adapter: DeviceAdapterKind;
+  endpoint: string; // HTTP URL, or ws:// broker URL for MQTT
+  topic?: string;   // MQTT only
+  sensitive?: boolean; // Every action needs the user's confirmation, whatever the type
+}
+
+export interface Detection {
+  label: string;
+  box: [number, number, number, number]; // [ymin, xmin, ymax, xmax] 0-100 range
+  confidence: number; // 0-1
 }
 
 export interface AROverlayData {
   id: string;
+  trackId: string; // Stable across frames while the same object stays in view
   label: string;
   box: [number, number, number, number]; // [ymin, xmin, ymax, xmax] 0-100 range
-  color: string;
+  confidence: number;
+  color: string; // Derived from the label
+  timestamp: number; // Last time the track was matched by a detection
+  pinned?: boolean; // Pinned tracks never expire
+}
+
+export interface Snapshot {
+  id: string;
+  createdAt: number;
+  labels: string[]; // Overlays burned into the image
+  width: number;
+  height: number;
+  image: Blob; // JPEG
+}
+
+export type ConfirmationOutcome = 'approved' | 'denied' | 'timeout' | 'cancelled';
+
+// One decision on a sensitive tool call
+export interface AuditEntry {
+  id: string;
   timestamp: number;
+  sessionId: string;
+  tool: string;
+  args: Record<string, unknown>;
+  reason: string;  // Why the call needed confirmation
+  outcome: ConfirmationOutcome;
+  via: 'dialog' | 'voice' | 'system'; // 'system' for timeouts and disconnects
 }
 
+// Keeps each declaration's literal schema type, so tool handlers can derive their argument types from it
+const declareTools = <const T extends FunctionDeclaration[]>(tools: T) => tools;
+
 // Tool Definitions for Function Calling (Translated to Chinese)
-export const TOOLS_DECLARATION: FunctionDeclaration[] = [
+export const TOOLS_DECLARATION = declareTools([
   {
     name: 'setReminder',
     parameters: {
@@ -43,6 +162,28 @@ export const TOOLS_DECLARATION: FunctionDeclaration[] = [
       required: ['task', 'time'],
     },
   },
+  {
+    name: 'listReminders',
+    parameters: {
+      type: Type.OBJECT,
+      description: '列出所有尚未触发的提醒及其到期时间。',
+      properties: {},
+    },
+  },
+  {
+    name: 'cancelReminder',
+    parameters: {
+      type: Type.OBJECT,
+      description: '取消一个尚未触发的提醒。',
+      properties: {
+        reminder: {
+          type: Type.STRING,
+          description: '提醒的ID，或提醒内容中的关键词。关键词匹配到多个提醒时不会取消，而是返回候选列表。',
+        },
+      },
+      required: ['reminder'],
+    },
+  },
   {
     name: 'toggleSmartHome',
     parameters: {
@@ -57,6 +198,10 @@ export const TOOLS_DECLARATION: FunctionDeclaration[] = [
           type: Type.STRING,
           description: '执行的动作（例如“打开”、“关闭”、“锁定”、“解锁”）。',
         },
+        value: {
+          type: Type.STRING,
+          description: '可选的动作参数（例如恒温器的目标温度“22”）。',
+        },
       },
       required: ['device', 'action'],
     },
@@ -75,8 +220,123 @@ export const TOOLS_DECLARATION: FunctionDeclaration[] = [
           type: Type.STRING,
           description: '需要记住的具体细节。',
         },
+        category: {
+          type: Type.STRING,
+          description: '可选的分类（例如“个人信息”、“偏好”、“工作”）。',
+        },
+        confidence: {
+          type: Type.NUMBER,
+          description: '可选，0 到 1 之间，表示对该事实的确信程度。',
+        },
       },
       required: ['key', 'value'],
     },
+  },
+  {
+    name: 'recallMemory',
+    parameters: {
+      type: Type.OBJECT,
+      description: '按关键词或键名在长期记忆中查找相关的事实。',
+      properties: {
+        query: {
+          type: Type.STRING,
+          description: '记忆的键名或关键词（例如“地址”）。',
+        },
+      },
+      required: ['query'],
+    },
+  },
+  {
+    name: 'searchMemory',
+    parameters: {
+      type: Type.OBJECT,
+      description: '按相关性在长期记忆中检索与当前话题有关的事实。系统提示中只包含部分记忆，需要更多背景时调用。',
+      properties: {
+        query: {
+          type: Type.STRING,
+          description: '自然语言的检索内容（例如“用户喜欢的咖啡”）。',
+        },
+        limit: {
+          type: Type.NUMBER,
+          description: '最多返回的条数，默认 5。',
+        },
+      },
+      required: ['query'],
+    },
+  },
+  {
+    name: 'listMemories',
+    parameters: {
+      type: Type.OBJECT,
+      description: '列出长期记忆中保存的所有条目。',
+      properties: {},
+    },
+  },
+  {
+    name: 'updateMemory',
+    parameters: {
+      type: Type.OBJECT,
+      description: '修改一条已存在的长期记忆的内容。',
+      properties: {
+        key: {
+          type: Type.STRING,
+          description: '要修改的记忆的确切键名。',
+        },
+        value: {
+          type: Type.STRING,
+          description: '新的内容。',
+        },
+      },
+      required: ['key', 'value'],
+    },
+  },
+  {
+    name: 'forgetMemory',
+    parameters: {
+      type: Type.OBJECT,
+      description: '从长期记忆中删除一条记忆（例如用户说“忘掉我以前的地址”）。不确定键名时先调用 recallMemory。',
+      properties: {
+        key: {
+          type: Type.STRING,
+          description: '要删除的记忆的确切键名。',
+        },
+      },
+      required: ['key'],
+    },
+  },
+  {
+    name: 'reportDetections',
+    parameters: {
+      type: Type.OBJECT,
+      description: '报告当前画面中识别到的物体，用于在视频上绘制 AR 标注。用户询问画面内容或要求识别物体时调用。',
+      properties: {
+        detections: {
+          type: Type.ARRAY,
+          description: '识别到的物体列表。',
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              label: {
+                type: Type.STRING,
+                description: '物体名称（中文），例如“杯子”。',
+              },
+              box: {
+                type: Type.ARRAY,
+                description: '边界框 [ymin, xmin, ymax, xmax]，取值范围 0-100（相对画面的百分比）。',
+                items: { type: Type.NUMBER },
+              },
+              confidence: {
+                type: Type.NUMBER,
+                description: '置信度，0 到 1。',
+              },
+            },
+            required: ['label', 'box'],
+          },
+        },
+      },
+      required: ['detections'],
+    },
   }
-];
\ No newline at end of file
+]);
+
+export type ToolName = (typeof TOOLS_DECLARATION)[number]['name'];
\ No newline at end of file
@@ -0,0 +1,134 @@
+import { AROverlayData } from '../types';
+
+type Box = AROverlayData['box'];
+
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Crops smaller than this (in source pixels) are upscaled so the model has something to look at
+const MIN_CROP_SIZE = 64;
+const JPEG_QUALITY = 0.9;
+
+/**
+ * Where an `object-contain` video actually paints inside its element. Boxes are relative to
+ * the frame, not the element, so overlays and pointer input both go through this.
+ */
+export function contentRect(video: HTMLVideoElement, width: number, height: number): Rect {
+  const { videoWidth, videoHeight } = video;
+  if (!videoWidth || !videoHeight) return { x: 0, y: 0, width, height };
+  const scale = Math.min(width / videoWidth, height / videoHeight);
+  const w = videoWidth * scale;
+  const h = videoHeight * scale;
+  return { x: (width - w) / 2, y: (height - h) / 2, width: w, height: h };
+}
+
+export const boxToRect = ([ymin, xmin, ymax, xmax]: Box, rect: Rect): Rect => ({
+  x: rect.x + (xmin / 100) * rect.width,
+  y: rect.y + (ymin / 100) * rect.height,
+  width: ((xmax - xmin) / 100) * rect.width,
+  height: ((ymax - ymin) / 100) * rect.height,
+});
+
+/**
+ * Converts a point inside `rect` to 0-100 frame coordinates, clamped to the frame.
+ */
+export function pointToFrame(px: number, py: number, rect: Rect): { x: number; y: number } {
+  const clamp = (v: number) => Math.max(0, Math.min(100, v));
+  return { x: clamp(((px - rect.x) / rect.width) * 100), y: clamp(((py - rect.y) / rect.height) * 100) };
+}
+
+/**
+ * Topmost overlay containing the given frame point; smaller boxes win when nested.
+ */
+export function overlayAt(overlays: AROverlayData[], x: number, y: number): AROverlayData | null {
+  const hits = overlays.filter(({ box: [ymin, xmin, ymax, xmax] }) => x >= xmin && x <= xmax && y >= ymin && y <= ymax);
+  const area = ({ box: [ymin, xmin, ymax, xmax] }: AROverlayData) => (ymax - ymin) * (xmax - xmin);
+  return hits.sort((a, b) => area(a) - area(b))[0] || null;
+}
+
+/**
+ * Draws one overlay as sci-fi corner brackets with a label tab.
+ */
+export function drawOverlay(ctx: CanvasRenderingContext2D, overlay: AROverlayData, frame: Rect, alpha = 1) {
+  const { x, y, width: w, height: h } = boxToRect(overlay.box, frame);
+
+  ctx.globalAlpha = alpha;
+  ctx.strokeStyle = overlay.color;
+  ctx.lineWidth = 2;
+  ctx.shadowBlur = 8;
+  ctx.shadowColor = overlay.color;
+  const L = 15;
+
+  // Sci-fi Brackets
+  ctx.beginPath();
+  // TL
+  ctx.moveTo(x, y + L); ctx.lineTo(x, y); ctx.lineTo(x + L, y);
+  // TR
+  ctx.moveTo(x + w - L, y); ctx.lineTo(x + w, y); ctx.lineTo(x + w, y + L);
+  // BR
+  ctx.moveTo(x + w, y + h - L); ctx.lineTo(x + w, y + h); ctx.lineTo(x + w - L, y + h);
+  // BL
+  ctx.moveTo(x + L, y + h); ctx.lineTo(x, y + h); ctx.lineTo(x, y + h - L);
+  ctx.stroke();
+
+  // Label
+  ctx.font = 'bold 12px monospace';
+  const txt = `${overlay.pinned ? '◆ ' : ''}${overlay.label.toUpperCase()} ${Math.round(overlay.confidence * 100)}%`;
+  const metrics = ctx.measureText(txt);
+  ctx.shadowBlur = 0;
+  ctx.fillStyle = overlay.color;
+  ctx.fillRect(x, y - 20, metrics.width + 10, 20);
+  ctx.fillStyle = '#000';
+  ctx.fillText(txt, x + 5, y - 6);
+  ctx.globalAlpha = 1;
+}
+
+/**
+ * Draws the box the user is dragging out by hand.
+ */
+export function drawSelection(ctx: CanvasRenderingContext2D, box: Box, frame: Rect) {
+  const { x, y, width, height } = boxToRect(box, frame);
+  ctx.save();
+  ctx.setLineDash([6, 4]);
+  ctx.strokeStyle = '#fff';
+  ctx.lineWidth = 1.5;
+  ctx.fillStyle = 'rgba(34, 211, 238, 0.12)';
+  ctx.fillRect(x, y, width, height);
+  ctx.strokeRect(x, y, width, height);
+  ctx.restore();
+}
+
+const toJpeg = (canvas: HTMLCanvasElement) => new Promise<Blob>((resolve, reject) => {
+  canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error("图像编码失败")), 'image/jpeg', JPEG_QUALITY);
+});
+
+/**
+ * Crops a 0-100 box out of the current video frame at source resolution.
+ */
+export function cropFrame(video: HTMLVideoElement, box: Box): Promise<Blob> {
+  const source = boxToRect(box, { x: 0, y: 0, width: video.videoWidth, height: video.videoHeight });
+  const scale = Math.max(1, MIN_CROP_SIZE / Math.min(source.width, source.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(source.width * scale));
+  canvas.height = Math.max(1, Math.round(source.height * scale));
+  canvas.getContext('2d')!.drawImage(video, source.x, source.y, source.width, source.height, 0, 0, canvas.width, canvas.height);
+  return toJpeg(canvas);
+}
+
+/**
+ * The current video frame at source resolution with the given overlays burned in.
+ */
+export async function renderSnapshot(video: HTMLVideoElement, overlays: AROverlayData[]): Promise<{ image: Blob; width: number; height: number }> {
+  const canvas = document.createElement('canvas');
+  canvas.width = video.videoWidth;
+  canvas.height = video.videoHeight;
+  const ctx = canvas.getContext('2d')!;
+  ctx.drawImage(video, 0, 0);
+  const frame = { x: 0, y: 0, width: canvas.width, height: canvas.height };
+  overlays.forEach(o => drawOverlay(ctx, o, frame));
+  return { image: await toJpeg(canvas), width: canvas.width, height: canvas.height };
+}
@@ -0,0 +1,181 @@
+import { floatToInt16 } from './audioUtils';
+
+export const CAPTURE_SAMPLE_RATE = 16000;
+// 40 ms at 16 kHz; the old ScriptProcessor path sent 256 ms chunks
+const CHUNK_SAMPLES = 640;
+// Fallback buffer size for the legacy ScriptProcessor path
+const SCRIPT_PROCESSOR_BUFFER = 4096;
+
+const PROCESSOR_NAME = 'jarvis-pcm-capture';
+
+/**
+ * AudioWorklet processor source. Runs on the audio rendering thread:
+ * resamples the device's native rate to the target rate with a windowed-sinc
+ * low-pass interpolator, converts Float32 to Int16, and posts fixed-size chunks.
+ * Kept as a string so it can be loaded from a Blob URL without a separate build entry.
+ */
+const WORKLET_SOURCE = `
+const HALF_TAPS = 16;
+
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const { targetRate, chunkSamples } = options.processorOptions;
+    this.ratio = sampleRate / targetRate;           // input samples per output sample
+    this.cutoff = Math.min(1, targetRate / sampleRate); // normalized anti-alias cutoff
+    this.buffer = new Float32Array(0);
+    this.pos = HALF_TAPS;                          // fractional read position in buffer
+    this.out = new Int16Array(chunkSamples);
+    this.outLen = 0;
+  }
+
+  kernel(x) {
+    if (x === 0) return this.cutoff;
+    const px = Math.PI * x;
+    const sinc = Math.sin(px * this.cutoff) / px;
+    const window = 0.5 + 0.5 * Math.cos(px / (HALF_TAPS + 1)); // Hann
+    return sinc * window;
+  }
+
+  push(sample) {
+    const s = Math.max(-1, Math.min(1, sample));
+    this.out[this.outLen++] = s < 0 ? s * 0x8000 : s * 0x7FFF;
+    if (this.outLen === this.out.length) {
+      const chunk = this.out;
+      this.port.postMessage(chunk.buffer, [chunk.buffer]);
+      this.out = new Int16Array(chunk.length);
+      this.outLen = 0;
+    }
+  }
+
+  process(inputs) {
+    const input = inputs[0] && inputs[0][0];
+    if (!input) return true;
+
+    const merged = new Float32Array(this.buffer.length + input.length);
+    merged.set(this.buffer);
+    merged.set(input, this.buffer.length);
+    this.buffer = merged;
+
+    while (Math.floor(this.pos) + HALF_TAPS < this.buffer.length) {
+      const center = Math.floor(this.pos);
+      const frac = this.pos - center;
+      let acc = 0;
+      for (let k = -HALF_TAPS + 1; k <= HALF_TAPS; k++) {
+        acc += this.buffer[center + k] * this.kernel(k - frac);
+      }
+      this.push(acc);
+      this.pos += this.ratio;
+    }
+
+    // Drop consumed samples, keeping enough history for the next kernel window
+    const drop = Math.max(0, Math.floor(this.pos) - HALF_TAPS);
+    if (drop > 0) {
+      this.buffer = this.buffer.slice(drop);
+      this.pos -= drop;
+    }
+    return true;
+  }
+}
+
+registerProcessor('${PROCESSOR_NAME}', PcmCaptureProcessor);
+`;
+
+export interface AudioCapture {
+  mode: 'worklet' | 'script-processor';
+  source: MediaStreamAudioSourceNode;
+  stop: () => void;
+}
+
+// Receives mono Int16 PCM along with the rate it was captured at
+type ChunkHandler = (pcm: Int16Array, sampleRate: number) => void;
+
+// Worklet modules only need to be added once per AudioContext
+const loadedContexts = new WeakSet<BaseAudioContext>();
+
+/**
+ * Whether this browser can run the worklet capture path.
+ */
+export function supportsAudioWorklet(): boolean {
+  return typeof AudioWorkletNode !== 'undefined' && 'audioWorklet' in AudioContext.prototype;
+}
+
+async function startWorkletCapture(ctx: AudioContext, source: MediaStreamAudioSourceNode, onChunk: ChunkHandler): Promise<AudioCapture> {
+  if (!loadedContexts.has(ctx)) {
+    const url = URL.createObjectURL(new Blob([WORKLET_SOURCE], { type: 'application/javascript' }));
+    try {
+      await ctx.audioWorklet.addModule(url);
+    } finally {
+      URL.revokeObjectURL(url);
+    }
+    loadedContexts.add(ctx);
+  }
+
+  const node = new AudioWorkletNode(ctx, PROCESSOR_NAME, {
+    numberOfInputs: 1,
+    numberOfOutputs: 0,
+    channelCount: 1,
+    channelCountMode: 'explicit',
+    processorOptions: { targetRate: CAPTURE_SAMPLE_RATE, chunkSamples: CHUNK_SAMPLES },
+  });
+  node.port.onmessage = (e: MessageEvent<ArrayBuffer>) => {
+    onChunk(new Int16Array(e.data), CAPTURE_SAMPLE_RATE);
+  };
+  source.connect(node);
+
+  return {
+    mode: 'worklet',
+    source,
+    stop: () => {
+      node.port.onmessage = null;
+      source.disconnect();
+      node.disconnect();
+    },
+  };
+}
+
+function startScriptProcessorCapture(ctx: AudioContext, source: MediaStreamAudioSourceNode, onChunk: ChunkHandler): AudioCapture {
+  const processor = ctx.createScriptProcessor(SCRIPT_PROCESSOR_BUFFER, 1, 1);
+  processor.onaudioprocess = (e) => {
+    // Report the rate the context actually runs at; some browsers ignore the requested 16 kHz
+    onChunk(floatToInt16(e.inputBuffer.getChannelData(0)), ctx.sampleRate);
+  };
+  source.connect(processor);
+  processor.connect(ctx.destination);
+
+  return {
+    mode: 'script-processor',
+    source,
+    stop: () => {
+      processor.onaudioprocess = null;
+      source.disconnect();
+      processor.disconnect();
+    },
+  };
+}
+
+/**
+ * Starts streaming PCM chunks (16 kHz where possible) from the mic. Uses an AudioWorklet when available,
+ * otherwise falls back to the main-thread ScriptProcessor path. For the fallback, `ctx`
+ * should have been created at 16 kHz (see `createCaptureContext`).
+ */
+export async function startAudioCapture(ctx: AudioContext, stream: MediaStream, onChunk: ChunkHandler): Promise<AudioCapture> {
+  const source = ctx.createMediaStreamSource(stream);
+  if (supportsAudioWorklet()) {
+    try {
+      return await startWorkletCapture(ctx, source, onChunk);
+    } catch (e) {
+      console.warn("AudioWorklet 不可用，回退至 ScriptProcessor", e);
+    }
+  }
+  return startScriptProcessorCapture(ctx, source, onChunk);
+}
+
+/**
+ * Creates the capture context. The worklet path resamples itself, so it runs at the
+ * device's native rate; the fallback asks the browser for 16 kHz directly.
+ */
+export function createCaptureContext(): AudioContext {
+  const Ctx = window.AudioContext || (window as any).webkitAudioContext;
+  return supportsAudioWorklet() ? new Ctx() : new Ctx({ sampleRate: CAPTURE_SAMPLE_RATE });
+}
@@ -0,0 +1,71 @@
+export type MicStatus = 'ok' | 'clipping' | 'silent';
+
+export const MIC_STATUS_LABELS: Record<MicStatus, string> = {
+  ok: '麦克风正常',
+  clipping: '输入削波',
+  silent: '无输入',
+};
+
+// A sample this close to full scale counts as clipped
+const CLIP_THRESHOLD = 0.99;
+// Roughly -50 dBFS; below this the mic is effectively silent
+const SILENCE_RMS = 0.003;
+const CLIP_HOLD_MS = 1000;   // Keep showing a clip long enough to be seen
+const SILENCE_AFTER_MS = 3000;
+
+export interface Level {
+  peak: number;
+  rms: number;
+}
+
+export function measureLevel(samples: Float32Array): Level {
+  let peak = 0;
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) {
+    const s = Math.abs(samples[i]);
+    if (s > peak) peak = s;
+    sum += s * s;
+  }
+  return { peak, rms: samples.length > 0 ? Math.sqrt(sum / samples.length) : 0 };
+}
+
+export interface MicMonitor {
+  /** Feeds one analyser frame; returns the status to show. */
+  update: (level: Level, now: number) => MicStatus;
+  reset: () => void;
+}
+
+/**
+ * Turns per-frame levels into a steady status: clips are held briefly, and silence
+ * only counts once it has lasted a few seconds, so pauses between words don't flicker.
+ */
+export function createMicMonitor(): MicMonitor {
+  let lastClipAt = -Infinity;
+  let lastSoundAt: number | null = null;
+
+  return {
+    update: ({ peak, rms }, now) => {
+      if (lastSoundAt === null) lastSoundAt = now;
+      if (peak >= CLIP_THRESHOLD) lastClipAt = now;
+      if (rms >= SILENCE_RMS) lastSoundAt = now;
+
+      if (now - lastClipAt < CLIP_HOLD_MS) return 'clipping';
+      if (now - lastSoundAt >= SILENCE_AFTER_MS) return 'silent';
+      return 'ok';
+    },
+    reset: () => {
+      lastClipAt = -Infinity;
+      lastSoundAt = null;
+    },
+  };
+}
+
+/**
+ * RMS of an Int16 PCM chunk, on the same 0-1 scale as `measureLevel`.
+ */
+export function int16Rms(pcm: Int16Array): number {
+  if (pcm.length === 0) return 0;
+  let sum = 0;
+  for (let i = 0; i < pcm.length; i++) sum += pcm[i] * pcm[i];
+  return Math.sqrt(sum / pcm.length) / 32768;
+}
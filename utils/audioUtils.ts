@@ -50,7 +50,14 @@ export async function decodeAudioData(
  * Creates a blob from Float32Array audio data for sending to the API.
  * Converts Float32 (Web Audio API) to Int16 (Gemini API requirement).
  */
-export function createPcmBlob(data: Float32Array): { data: string; mimeType: string } {
+export function createPcmBlob(data: Float32Array, sampleRate = 16000): { data: string; mimeType: string } {
+  return int16ToPcmBlob(floatToInt16(data), sampleRate);
+}
+
+/**
+ * Converts Float32 samples (-1.0 to 1.0) to Int16 PCM.
+ */
+export function floatToInt16(data: Float32Array): Int16Array {
   const l = data.length;
   const int16 = new Int16Array(l);
   for (let i = 0; i < l; i++) {
@@ -58,9 +65,16 @@ export function createPcmBlob(data: Float32Array): { data: string; mimeType: str
     const s = Math.max(-1, Math.min(1, data[i]));
     int16[i] = s < 0 ? s * 0x8000 : s * 0x7FFF;
   }
+  return int16;
+}
+
+/**
+ * Wraps already-converted Int16 PCM (e.g. from the capture worklet) for sending to the API.
+ */
+export function int16ToPcmBlob(int16: Int16Array, sampleRate = 16000): { data: string; mimeType: string } {
   return {
-    data: encode(new Uint8Array(int16.buffer)),
-    mimeType: 'audio/pcm;rate=16000',
+    data: encode(new Uint8Array(int16.buffer, int16.byteOffset, int16.byteLength)),
+    mimeType: `audio/pcm;rate=${sampleRate}`,
   };
 }
 
@@ -78,4 +92,62 @@ export function blobToBase64(blob: Blob): Promise<string> {
     reader.onerror = reject;
     reader.readAsDataURL(blob);
   });
-}
\ No newline at end of file
+}
+
+/**
+ * Linearly resamples mono audio. Good enough for archiving speech; not for playback-quality conversion.
+ */
+export function resampleLinear(data: Float32Array, fromRate: number, toRate: number): Float32Array {
+  if (fromRate === toRate) return data;
+  const length = Math.round((data.length * toRate) / fromRate);
+  const out = new Float32Array(length);
+  const step = fromRate / toRate;
+  for (let i = 0; i < length; i++) {
+    const pos = i * step;
+    const index = Math.floor(pos);
+    const next = Math.min(index + 1, data.length - 1);
+    const frac = pos - index;
+    out[i] = data[index] * (1 - frac) + data[next] * frac;
+  }
+  return out;
+}
+
+/**
+ * Encodes equal-length Float32 channels as a 16-bit PCM WAV file.
+ */
+export function encodeWav(channels: Float32Array[], sampleRate: number): Blob {
+  const numChannels = channels.length;
+  const frameCount = channels[0]?.length ?? 0;
+  const blockAlign = numChannels * 2;
+  const dataSize = frameCount * blockAlign;
+  const view = new DataView(new ArrayBuffer(44 + dataSize));
+
+  const writeString = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);            // fmt chunk size
+  view.setUint16(20, 1, true);             // PCM
+  view.setUint16(22, numChannels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * blockAlign, true);
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, 16, true);            // Bits per sample
+  writeString(36, 'data');
+  view.setUint32(40, dataSize, true);
+
+  // Interleave and convert, clamping like floatToInt16
+  let offset = 44;
+  for (let i = 0; i < frameCount; i++) {
+    for (let c = 0; c < numChannels; c++) {
+      const s = Math.max(-1, Math.min(1, channels[c][i]));
+      view.setInt16(offset, s < 0 ? s * 0x8000 : s * 0x7FFF, true);
+      offset += 2;
+    }
+  }
+  return new Blob([view], { type: 'audio/wav' });
+}
@@ -0,0 +1,39 @@
+import { AuditEntry } from '../types';
+
+const AUDIT_KEY = 'jarvis_tool_audit';
+const MAX_ENTRIES = 500;
+
+export const AuditLogService = {
+  /**
+   * Newest first.
+   */
+  list: (): AuditEntry[] => {
+    try {
+      const stored = localStorage.getItem(AUDIT_KEY);
+      return stored ? JSON.parse(stored) : [];
+    } catch (e) {
+      console.error("无法加载审计日志", e);
+      return [];
+    }
+  },
+
+  /**
+   * Appends a decision, dropping the oldest entries past the cap.
+   */
+  record: (entry: Omit<AuditEntry, 'id' | 'timestamp'>): AuditEntry => {
+    const full: AuditEntry = { ...entry, id: `audit_${Date.now()}_${Math.random().toString(36).slice(2, 6)}`, timestamp: Date.now() };
+    const entries = [full, ...AuditLogService.list()].slice(0, MAX_ENTRIES);
+    try {
+      localStorage.setItem(AUDIT_KEY, JSON.stringify(entries));
+    } catch (e) {
+      console.error("审计日志写入失败", e);
+    }
+    return full;
+  },
+
+  clear: () => {
+    localStorage.removeItem(AUDIT_KEY);
+  },
+
+  toJson: (entries: AuditEntry[]): string => JSON.stringify(entries, null, 2),
+};
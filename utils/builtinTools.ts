@@ -0,0 +1,145 @@
+import { LogEntry, TOOLS_DECLARATION, ToolName } from '../types';
+import { ReminderService } from './reminderService';
+import { DeviceRegistry } from './deviceRegistry';
+import { MemoryService } from './memoryService';
+import { MemoryRetrieval } from './memoryRetrieval';
+import { Tool, ToolError, ToolResult, defineTool, toolError } from './toolRegistry';
+
+/**
+ * What the built-in tools need from the app: UI refreshes and session state they can't own.
+ */
+export interface ToolHost {
+  sessionId: () => string;
+  onRemindersChanged: () => void;
+  onDevicesChanged: () => void;
+  onMemoriesChanged: () => Promise<void>;
+  /** Memories the model has now seen, so they aren't injected again. */
+  markMemoriesSeen: (keys: string[]) => void;
+  reportDetections: (detections: unknown[]) => ToolResult;
+  log: (message: string, type?: LogEntry['type']) => void;
+}
+
+// Device adapters time out after 5 s themselves; leave room for the registry write around it
+const DEVICE_TIMEOUT_MS = 8000;
+
+type Declaration<N extends ToolName> = Extract<(typeof TOOLS_DECLARATION)[number], { name: N }>;
+
+const declaration = <N extends ToolName>(name: N): Declaration<N> => {
+  const found = TOOLS_DECLARATION.find((d): d is Declaration<N> => d.name === name);
+  if (!found) throw new Error(`缺少工具声明: ${name}`);
+  return found;
+};
+
+const formatDue = (dueAt: number) => new Date(dueAt).toLocaleString('zh-CN');
+
+// IndexedDB failures surface as DOMExceptions; name the common ones so the model can explain them
+const storageError = (error: unknown): ToolError => {
+  if (error instanceof DOMException && error.name === 'QuotaExceededError') {
+    return { code: 'STORAGE_FULL', message: '本地存储空间已满' };
+  }
+  return { code: 'STORAGE_ERROR', message: error instanceof Error ? error.message : String(error) };
+};
+
+const memoryNotFound = async (key: string) =>
+  toolError('NOT_FOUND', `未找到记忆: ${key}`, { candidates: (await MemoryService.recall(key)).map(m => m.key) });
+
+const toMemoryList = (items: { key: string; value: string }[]) => items.map(m => ({ key: m.key, value: m.value }));
+
+export function createBuiltinTools(host: ToolHost): Tool[] {
+  return [
+    defineTool({
+      declaration: declaration('setReminder'),
+      handler: ({ task, time }) => {
+        const reminder = ReminderService.add(task, time);
+        if (!reminder) return toolError('INVALID_TIME', `无法解析时间: ${time}`);
+        host.onRemindersChanged();
+        return { result: `已设提醒: ${reminder.task}`, id: reminder.id, dueAt: formatDue(reminder.dueAt) };
+      },
+    }),
+    defineTool({
+      declaration: declaration('listReminders'),
+      handler: () => ({
+        reminders: ReminderService.listPending().map(r => ({ id: r.id, task: r.task, dueAt: formatDue(r.dueAt) })),
+      }),
+    }),
+    defineTool({
+      declaration: declaration('cancelReminder'),
+      handler: ({ reminder }) => {
+        const outcome = ReminderService.cancel(reminder);
+        host.onRemindersChanged();
+        if ('error' in outcome) return { error: outcome.error };
+        return { result: `已取消提醒: ${outcome.reminder.task}` };
+      },
+    }),
+    defineTool({
+      declaration: declaration('toggleSmartHome'),
+      timeoutMs: DEVICE_TIMEOUT_MS,
+      handler: async ({ device, action, value }, signal) => {
+        const outcome = await DeviceRegistry.execute(device, action, value, signal);
+        host.onDevicesChanged();
+        if ('error' in outcome) return { error: outcome.error };
+        return { result: `${outcome.device} 已${outcome.action}`, state: outcome.state };
+      },
+    }),
+    defineTool({
+      declaration: declaration('saveToLongTermMemory'),
+      mapError: storageError,
+      handler: async ({ key, value, category, confidence }) => {
+        await MemoryService.save(key, value, { category, confidence, sourceSession: host.sessionId() });
+        // The model already knows what it just saved
+        host.markMemoriesSeen([key]);
+        await host.onMemoriesChanged();
+        return { result: "已归档" };
+      },
+    }),
+    defineTool({
+      declaration: declaration('searchMemory'),
+      mapError: storageError,
+      handler: async ({ query, limit }) => {
+        const found = await MemoryRetrieval.search(query, limit || 5);
+        host.markMemoriesSeen(found.map(m => m.key));
+        await host.onMemoriesChanged();
+        return found.length > 0 ? { memories: toMemoryList(found) } : { result: `没有与“${query}”相关的记忆` };
+      },
+    }),
+    defineTool({
+      declaration: declaration('recallMemory'),
+      mapError: storageError,
+      handler: async ({ query }) => {
+        const found = await MemoryService.recall(query);
+        await MemoryService.recordAccess(found.map(m => m.key));
+        await host.onMemoriesChanged();
+        return found.length > 0 ? { memories: toMemoryList(found) } : { result: `没有与“${query}”相关的记忆` };
+      },
+    }),
+    defineTool({
+      declaration: declaration('listMemories'),
+      mapError: storageError,
+      handler: async () => ({ memories: toMemoryList(await MemoryService.load()) }),
+    }),
+    defineTool({
+      declaration: declaration('updateMemory'),
+      mapError: storageError,
+      handler: async ({ key, value }) => {
+        const updated = await MemoryService.update(key, value);
+        await host.onMemoriesChanged();
+        return updated ? { result: `已更新: ${updated.key}` } : memoryNotFound(key);
+      },
+    }),
+    defineTool({
+      declaration: declaration('forgetMemory'),
+      mapError: storageError,
+      handler: async ({ key }) => {
+        const removed = await MemoryService.forget(key);
+        await host.onMemoriesChanged();
+        if (!removed) return memoryNotFound(key);
+        host.log(`记忆已删除: ${removed.key}`, 'warning');
+        return { result: `已删除: ${removed.key}` };
+      },
+    }),
+    defineTool({
+      declaration: declaration('reportDetections'),
+      handler: ({ detections }) => host.reportDetections(detections),
+    }),
+  ];
+}
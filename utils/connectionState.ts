@@ -0,0 +1,60 @@
+export type ConnectionStatus = 'idle' | 'connecting' | 'live' | 'reconnecting' | 'failed';
+
+export interface ConnectionState {
+  status: ConnectionStatus;
+  attempt: number;      // Consecutive reconnect attempts since the link was last live
+  lastError?: string;
+}
+
+export type ConnectionEvent =
+  | { type: 'CONNECT' }                    // User starts a new session
+  | { type: 'OPENED' }                     // Socket is up
+  | { type: 'DROPPED'; error?: string }    // Link lost or the attempt failed
+  | { type: 'GO_AWAY' }                    // Link closed after goAway before its replacement was set up
+  | { type: 'RETRY' }                      // Manual retry after giving up
+  | { type: 'DISCONNECT' };                // User ended the session
+
+export const CONNECTION_STATUS_LABELS: Record<ConnectionStatus, string> = {
+  idle: 'OFFLINE',
+  connecting: 'CONNECTING',
+  live: 'ONLINE',
+  reconnecting: 'RECONNECTING',
+  failed: 'FAILED',
+};
+
+export const INITIAL_CONNECTION: ConnectionState = { status: 'idle', attempt: 0 };
+
+export const MAX_RECONNECT_ATTEMPTS = 6;
+const BACKOFF_BASE_MS = 1000;
+const BACKOFF_MAX_MS = 30000;
+const BACKOFF_JITTER = 0.2;
+
+/**
+ * Pure transition function. Events that make no sense in the current state leave it unchanged.
+ */
+export function transition(state: ConnectionState, event: ConnectionEvent): ConnectionState {
+  switch (event.type) {
+    case 'CONNECT':
+      return state.status === 'idle' || state.status === 'failed' ? { status: 'connecting', attempt: 0 } : state;
+    case 'OPENED':
+      return state.status === 'connecting' || state.status === 'reconnecting' ? { status: 'live', attempt: 0 } : state;
+    case 'DROPPED':
+      if (state.status === 'idle' || state.status === 'failed') return state;
+      if (state.attempt >= MAX_RECONNECT_ATTEMPTS) return { status: 'failed', attempt: state.attempt, lastError: event.error };
+      return { status: 'reconnecting', attempt: state.attempt + 1, lastError: event.error };
+    case 'GO_AWAY':
+      return state.status === 'live' ? { status: 'reconnecting', attempt: 0 } : state;
+    case 'RETRY':
+      return state.status === 'failed' ? { status: 'reconnecting', attempt: 0, lastError: state.lastError } : state;
+    case 'DISCONNECT':
+      return INITIAL_CONNECTION;
+  }
+}
+
+/**
+ * Delay before reconnect attempt `attempt` (1-based): exponential with jitter, capped.
+ */
+export function backoffDelay(attempt: number): number {
+  const base = Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** Math.max(0, attempt - 1));
+  return Math.round(base * (1 + (Math.random() * 2 - 1) * BACKOFF_JITTER));
+}
@@ -0,0 +1,107 @@
+import { MemoryItem } from '../types';
+
+const DB_NAME = 'jarvis';
+
+export const MEMORY_STORE = 'memories';
+export const SESSION_STORE = 'sessions';
+export const SNAPSHOT_STORE = 'snapshots';
+
+// Legacy localStorage blob, imported once by the v1 migration
+const LEGACY_MEMORY_KEY = 'jarvis_long_term_memory';
+
+type Migration = (db: IDBDatabase, tx: IDBTransaction) => void;
+
+/**
+ * Schema migrations, applied in order. Entry N upgrades the database from version N to N + 1.
+ * Never edit a shipped migration; append a new one instead.
+ */
+const MIGRATIONS: Migration[] = [
+  // v1: memories keyed by `key`, plus the one-time import of the localStorage blob.
+  (db, tx) => {
+    const store = db.createObjectStore(MEMORY_STORE, { keyPath: 'key' });
+    store.createIndex('addedAt', 'addedAt');
+
+    let legacy: MemoryItem[] = [];
+    try {
+      const stored = localStorage.getItem(LEGACY_MEMORY_KEY);
+      legacy = stored ? JSON.parse(stored) : [];
+    } catch (e) {
+      // Leave the blob in place so it can still be recovered by hand.
+      console.error("旧版记忆库已损坏，跳过迁移", e);
+      return;
+    }
+    legacy
+      .filter(m => m && typeof m.key === 'string' && typeof m.value === 'string')
+      .forEach(m => store.put({ ...m, addedAt: m.addedAt || Date.now(), sourceSession: 'legacy' }));
+    tx.addEventListener('complete', () => localStorage.removeItem(LEGACY_MEMORY_KEY));
+  },
+  // v2: category index for the richer MemoryItem fields.
+  (_db, tx) => {
+    tx.objectStore(MEMORY_STORE).createIndex('category', 'category');
+  },
+  // v3: conversation history.
+  (db) => {
+    const store = db.createObjectStore(SESSION_STORE, { keyPath: 'id' });
+    store.createIndex('startedAt', 'startedAt');
+  },
+  // v4: annotated AR snapshots.
+  (db) => {
+    const store = db.createObjectStore(SNAPSHOT_STORE, { keyPath: 'id' });
+    store.createIndex('createdAt', 'createdAt');
+  },
+];
+
+const DB_VERSION = MIGRATIONS.length;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = (e) => {
+        const tx = req.transaction!;
+        for (let v = e.oldVersion; v < DB_VERSION; v++) MIGRATIONS[v](req.result, tx);
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+      req.onblocked = () => reject(new Error("数据库被其他标签页占用，请关闭后重试"));
+    });
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+}
+
+export function promisify<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+/**
+ * Runs `fn` inside a single transaction on one store and resolves with its result once the transaction commits.
+ */
+export async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => Promise<T>
+): Promise<T> {
+  const db = await openDb();
+  const tx = db.transaction(storeName, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error("事务已中止"));
+  });
+  let result: T;
+  try {
+    result = await fn(tx.objectStore(storeName));
+  } catch (e) {
+    done.catch(() => {});
+    tx.abort();
+    throw e;
+  }
+  await done;
+  return result;
+}
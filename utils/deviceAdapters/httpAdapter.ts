@@ -0,0 +1,23 @@
+import { SmartDevice } from '../../types';
+import type { DeviceAdapter } from './index';
+
+const REQUEST_TIMEOUT_MS = 5000;
+
+/**
+ * POSTs `{ device, action, value }` as JSON to the device's endpoint.
+ * Any non-2xx response is treated as a failed command.
+ */
+export const httpAdapter: DeviceAdapter = {
+  send: async (device: SmartDevice, action: string, value?: string, signal?: AbortSignal) => {
+    if (!device.endpoint) throw new Error('未配置 HTTP 端点');
+
+    const timeout = AbortSignal.timeout(REQUEST_TIMEOUT_MS);
+    const res = await fetch(device.endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ device: device.id, name: device.name, action, value }),
+      signal: signal ? AbortSignal.any([signal, timeout]) : timeout,
+    });
+    if (!res.ok) throw new Error(`HTTP ${res.status}`);
+  },
+};
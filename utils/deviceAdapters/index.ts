@@ -0,0 +1,25 @@
+import { DeviceAdapterKind, SmartDevice } from '../../types';
+import { httpAdapter } from './httpAdapter';
+import { mqttAdapter } from './mqttAdapter';
+
+/**
+ * Transport that delivers a device command to the outside world.
+ * Implementations throw on delivery failure; the registry turns that into a structured error.
+ * Once `signal` aborts they must not deliver the command.
+ */
+export interface DeviceAdapter {
+  send: (device: SmartDevice, action: string, value?: string, signal?: AbortSignal) => Promise<void>;
+}
+
+// Devices with no backing hardware only have their state tracked in the registry.
+const localAdapter: DeviceAdapter = {
+  send: async () => {},
+};
+
+const ADAPTERS: Record<DeviceAdapterKind, DeviceAdapter> = {
+  local: localAdapter,
+  http: httpAdapter,
+  mqtt: mqttAdapter,
+};
+
+export const getAdapter = (kind: DeviceAdapterKind): DeviceAdapter => ADAPTERS[kind] || localAdapter;
@@ -0,0 +1,100 @@
+import { SmartDevice } from '../../types';
+import type { DeviceAdapter } from './index';
+
+const CONNECT_TIMEOUT_MS = 5000;
+const KEEP_ALIVE_S = 60;
+
+// Open broker connections, keyed by broker URL, so consecutive commands reuse the socket.
+const connections = new Map<string, Promise<WebSocket>>();
+
+const utf8 = new TextEncoder();
+
+/**
+ * Encodes an MQTT "remaining length" varint.
+ */
+function encodeLength(len: number): number[] {
+  const bytes: number[] = [];
+  do {
+    let byte = len % 128;
+    len = Math.floor(len / 128);
+    if (len > 0) byte |= 0x80;
+    bytes.push(byte);
+  } while (len > 0);
+  return bytes;
+}
+
+function encodeString(str: string): number[] {
+  const data = utf8.encode(str);
+  return [data.length >> 8, data.length & 0xff, ...data];
+}
+
+function packet(type: number, body: number[]): Uint8Array {
+  return new Uint8Array([type, ...encodeLength(body.length), ...body]);
+}
+
+// MQTT 3.1.1 CONNECT with a clean session and no credentials.
+const connectPacket = (clientId: string) => packet(0x10, [
+  ...encodeString('MQTT'), 0x04, 0x02, KEEP_ALIVE_S >> 8, KEEP_ALIVE_S & 0xff,
+  ...encodeString(clientId),
+]);
+
+// QoS 0 PUBLISH: fire and forget, no packet id.
+const publishPacket = (topic: string, payload: string) => packet(0x30, [
+  ...encodeString(topic), ...utf8.encode(payload),
+]);
+
+function openConnection(brokerUrl: string): Promise<WebSocket> {
+  return new Promise((resolve, reject) => {
+    const ws = new WebSocket(brokerUrl, 'mqtt');
+    ws.binaryType = 'arraybuffer';
+    const timer = setTimeout(() => {
+      ws.close();
+      reject(new Error('MQTT 连接超时'));
+    }, CONNECT_TIMEOUT_MS);
+
+    ws.onopen = () => ws.send(connectPacket(`jarvis-${Math.random().toString(36).substr(2, 8)}`));
+    ws.onmessage = (e) => {
+      const data = new Uint8Array(e.data as ArrayBuffer);
+      // CONNACK: 0x20, len 2, flags, return code
+      if (data[0] === 0x20) {
+        clearTimeout(timer);
+        if (data[3] === 0) resolve(ws);
+        else reject(new Error(`MQTT 拒绝连接 (code ${data[3]})`));
+      }
+    };
+    ws.onerror = () => {
+      clearTimeout(timer);
+      reject(new Error(`无法连接 MQTT 代理: ${brokerUrl}`));
+    };
+    ws.onclose = () => connections.delete(brokerUrl);
+  });
+}
+
+function getConnection(brokerUrl: string): Promise<WebSocket> {
+  let conn = connections.get(brokerUrl);
+  if (!conn) {
+    conn = openConnection(brokerUrl);
+    conn.catch(() => connections.delete(brokerUrl));
+    connections.set(brokerUrl, conn);
+  }
+  return conn;
+}
+
+/**
+ * Publishes `{ action, value }` as JSON to the device's topic over MQTT-over-WebSocket.
+ */
+export const mqttAdapter: DeviceAdapter = {
+  send: async (device: SmartDevice, action: string, value?: string, signal?: AbortSignal) => {
+    if (!device.endpoint) throw new Error('未配置 MQTT 代理地址');
+    const topic = device.topic || `jarvis/devices/${device.id}/set`;
+
+    const ws = await getConnection(device.endpoint);
+    // Connecting can take most of the tool's time budget; don't publish for a call that already timed out
+    signal?.throwIfAborted();
+    if (ws.readyState !== WebSocket.OPEN) {
+      connections.delete(device.endpoint);
+      throw new Error('MQTT 连接已断开');
+    }
+    ws.send(publishPacket(topic, JSON.stringify({ device: device.id, action, value })));
+  },
+};
@@ -0,0 +1,173 @@
+import { FunctionDeclaration } from '@google/genai';
+import { SmartDevice, SmartDeviceType } from '../types';
+import { getAdapter } from './deviceAdapters';
+
+const REGISTRY_KEY = 'jarvis_device_registry';
+
+export const DEVICE_TYPE_LABELS: Record<SmartDeviceType, string> = {
+  light: '灯光',
+  lock: '门锁',
+  alarm: '安防警报',
+  thermostat: '恒温器',
+};
+
+export const DEFAULT_ACTIONS: Record<SmartDeviceType, string[]> = {
+  light: ['打开', '关闭'],
+  lock: ['锁定', '解锁'],
+  alarm: ['布防', '撤防'],
+  thermostat: ['打开', '关闭', '设置温度'],
+};
+
+// The one action that makes a security device safer; anything else it's asked to do needs confirmation
+const SECURING_ACTIONS: Partial<Record<SmartDeviceType, string>> = {
+  lock: '锁定',
+  alarm: '布防',
+};
+
+/**
+ * Whether running `action` on `device` needs the user's confirmation first. Works from the
+ * device's type and flag rather than the action's wording, since action lists are user-editable.
+ */
+export function requiresConfirmation(device: SmartDevice, action: string): boolean {
+  if (device.sensitive) return true;
+  const securing = SECURING_ACTIONS[device.type];
+  return securing !== undefined && action !== securing;
+}
+
+const DEFAULT_DEVICES: SmartDevice[] = [
+  { id: 'living_light', name: '客厅灯', type: 'light', actions: DEFAULT_ACTIONS.light, state: '关闭', adapter: 'local', endpoint: '' },
+  { id: 'front_door', name: '前门', type: 'lock', actions: DEFAULT_ACTIONS.lock, state: '锁定', adapter: 'local', endpoint: '' },
+  { id: 'thermostat', name: '恒温器', type: 'thermostat', actions: DEFAULT_ACTIONS.thermostat, state: '22°C', adapter: 'local', endpoint: '' },
+];
+
+export type DeviceErrorCode = 'UNKNOWN_DEVICE' | 'AMBIGUOUS_DEVICE' | 'UNSUPPORTED_ACTION' | 'MISSING_VALUE' | 'ADAPTER_FAILURE';
+
+export type DeviceCommandResult =
+  | { device: string; action: string; state: string }
+  | { error: { code: DeviceErrorCode; message: string; [detail: string]: unknown } };
+
+/**
+ * Derives the state a device is in after an action succeeded.
+ */
+const nextState = (device: SmartDevice, action: string, value?: string): string => {
+  if (device.type === 'thermostat' && value) return `${value}°C`;
+  return action;
+};
+
+export const DeviceRegistry = {
+  /**
+   * Loads the registry, seeding it with a few example devices on first run.
+   */
+  load: (): SmartDevice[] => {
+    try {
+      const stored = localStorage.getItem(REGISTRY_KEY);
+      return stored ? JSON.parse(stored) : DEFAULT_DEVICES;
+    } catch (e) {
+      console.error("无法加载设备注册表", e);
+      return DEFAULT_DEVICES;
+    }
+  },
+
+  /**
+   * Replaces the whole registry.
+   */
+  saveAll: (devices: SmartDevice[]) => {
+    localStorage.setItem(REGISTRY_KEY, JSON.stringify(devices));
+  },
+
+  /**
+   * Devices a spoken name could refer to: exact name or id matches if there are any,
+   * otherwise every partial name match. Blank names match nothing.
+   */
+  match: (name: string): SmartDevice[] => {
+    const query = name.trim();
+    if (!query) return [];
+    const devices = DeviceRegistry.load();
+    const exact = devices.filter(d => d.name === query || d.id === query);
+    if (exact.length > 0) return exact;
+    return devices.filter(d => query.includes(d.name) || d.name.includes(query));
+  },
+
+  /**
+   * Looks a device up by name, only when the name identifies exactly one device.
+   */
+  find: (name: string): SmartDevice | undefined => {
+    const candidates = DeviceRegistry.match(name);
+    return candidates.length === 1 ? candidates[0] : undefined;
+  },
+
+  /**
+   * Validates a command against the registry and dispatches it through the device's adapter.
+   * Once `signal` aborts, the command is no longer sent, and an in-flight request is cancelled.
+   */
+  execute: async (name: string, action: string, value?: string, signal?: AbortSignal): Promise<DeviceCommandResult> => {
+    const candidates = DeviceRegistry.match(name);
+    if (candidates.length === 0) {
+      return { error: {
+        code: 'UNKNOWN_DEVICE',
+        message: `未知设备: ${name}`,
+        knownDevices: DeviceRegistry.load().map(d => d.name),
+      } };
+    }
+    if (candidates.length > 1) {
+      return { error: {
+        code: 'AMBIGUOUS_DEVICE',
+        message: `"${name}" 匹配到多个设备，请说明具体是哪一个`,
+        candidates: candidates.map(d => d.name),
+      } };
+    }
+    const device = candidates[0];
+    if (!device.actions.includes(action)) {
+      return { error: {
+        code: 'UNSUPPORTED_ACTION',
+        message: `${device.name} 不支持动作: ${action}`,
+        supportedActions: device.actions,
+      } };
+    }
+    if (device.type === 'thermostat' && action === '设置温度' && !value) {
+      return { error: { code: 'MISSING_VALUE', message: '设置温度需要提供目标温度' } };
+    }
+
+    try {
+      signal?.throwIfAborted();
+      await getAdapter(device.adapter).send(device, action, value, signal);
+    } catch (e) {
+      return { error: {
+        code: 'ADAPTER_FAILURE',
+        message: `${device.name} 指令下发失败: ${e instanceof Error ? e.message : e}`,
+        adapter: device.adapter,
+      } };
+    }
+
+    const state = nextState(device, action, value);
+    DeviceRegistry.saveAll(DeviceRegistry.load().map(d => d.id === device.id ? { ...d, state } : d));
+    return { device: device.name, action, state };
+  },
+
+  /**
+   * Human-readable catalog of devices, for the model's tool description.
+   */
+  describe: (): string => {
+    const devices = DeviceRegistry.load();
+    if (devices.length === 0) return '当前没有已注册的设备。';
+    return devices
+      .map(d => `- ${d.name} (${DEVICE_TYPE_LABELS[d.type]}, 当前: ${d.state}, 可用动作: ${d.actions.join('/')})`)
+      .join('\n');
+  },
+
+  /**
+   * Returns a copy of the declarations with the live device catalog folded into toggleSmartHome.
+   */
+  decorateTools: (declarations: FunctionDeclaration[]): FunctionDeclaration[] => {
+    return declarations.map(decl => {
+      if (decl.name !== 'toggleSmartHome' || !decl.parameters) return decl;
+      return {
+        ...decl,
+        parameters: {
+          ...decl.parameters,
+          description: `${decl.parameters.description}\n已注册设备:\n${DeviceRegistry.describe()}`,
+        },
+      };
+    });
+  },
+};
@@ -0,0 +1,213 @@
+export interface SeriesPoint {
+  t: number; // ms since the session started
+  v: number;
+}
+
+export interface ToolTiming {
+  name: string;
+  rttMs: number;      // Excludes authWaitMs
+  authWaitMs: number; // Time spent waiting on the user to confirm, 0 for ordinary calls
+  ok: boolean;
+}
+
+export interface DiagnosticsTotals {
+  audioChunksSent: number;
+  audioBytesSent: number;
+  audioChunksReceived: number;
+  audioBytesReceived: number;
+  framesSent: number;
+  frameBytesSent: number;
+  toolCalls: number;
+  reconnects: number;
+  interruptions: number;
+}
+
+export interface SummaryStats {
+  count: number;
+  min: number;
+  avg: number;
+  p50: number;
+  p95: number;
+  max: number;
+}
+
+export interface DiagnosticsSnapshot {
+  totals: DiagnosticsTotals;
+  latency: SeriesPoint[];    // End of user speech to first audio chunk of the reply
+  toolRtt: SeriesPoint[];
+  queueDepth: SeriesPoint[]; // Ms of audio scheduled but not yet played
+  sendRate: SeriesPoint[];   // Bytes/s of audio and video sent
+  receiveRate: SeriesPoint[];
+}
+
+export interface DiagnosticsReport {
+  format: 'jarvis-metrics';
+  version: 1;
+  sessionId: string;
+  startedAt: string;
+  generatedAt: string;
+  durationMs: number;
+  totals: DiagnosticsTotals;
+  latencyMs: SummaryStats | null;
+  toolRttMs: SummaryStats | null;
+  toolAuthWaitMs: SummaryStats | null; // Only calls that needed confirmation
+  queueDepthMs: SummaryStats | null;
+  toolCalls: ToolTiming[];
+  reconnectReasons: string[];
+  series: Omit<DiagnosticsSnapshot, 'totals'>;
+}
+
+export interface Diagnostics {
+  audioSent: (bytes: number) => void;
+  audioReceived: (bytes: number) => void;
+  frameSent: (bytes: number) => void;
+  /** The user just spoke or typed; the next audio chunk received closes the latency measurement. */
+  userActivity: () => void;
+  /** The reply was cut off; whatever arrives next belongs to a new turn. */
+  interrupted: () => void;
+  /** `rttMs` is the call's own round trip; time waiting on the user's confirmation goes in `authWaitMs`. */
+  toolCompleted: (name: string, rttMs: number, ok: boolean, authWaitMs?: number) => void;
+  reconnected: (reason: string) => void;
+  /** Called periodically: samples queue depth and turns the byte counters into rates. */
+  sample: (queueDepthMs: number) => void;
+  snapshot: () => DiagnosticsSnapshot;
+  report: (sessionId: string) => DiagnosticsReport;
+}
+
+// Enough for the sparklines and a useful export without growing through a long session
+const MAX_POINTS = 300;
+
+const push = (series: SeriesPoint[], point: SeriesPoint) => {
+  series.push(point);
+  if (series.length > MAX_POINTS) series.shift();
+};
+
+export function summarize(values: number[]): SummaryStats | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const at = (q: number) => sorted[Math.min(sorted.length - 1, Math.floor(q * sorted.length))];
+  const round = (v: number) => Math.round(v * 10) / 10;
+  return {
+    count: sorted.length,
+    min: round(sorted[0]),
+    avg: round(sorted.reduce((a, b) => a + b, 0) / sorted.length),
+    p50: round(at(0.5)),
+    p95: round(at(0.95)),
+    max: round(sorted[sorted.length - 1]),
+  };
+}
+
+/**
+ * Collects pipeline metrics for one session. Times come from the caller's clock so the
+ * collector can be driven deterministically.
+ */
+export function createDiagnostics(now: () => number = () => performance.now()): Diagnostics {
+  const startedAt = now();
+  const startedAtWall = Date.now();
+  const totals: DiagnosticsTotals = {
+    audioChunksSent: 0,
+    audioBytesSent: 0,
+    audioChunksReceived: 0,
+    audioBytesReceived: 0,
+    framesSent: 0,
+    frameBytesSent: 0,
+    toolCalls: 0,
+    reconnects: 0,
+    interruptions: 0,
+  };
+  const series: Omit<DiagnosticsSnapshot, 'totals'> = { latency: [], toolRtt: [], queueDepth: [], sendRate: [], receiveRate: [] };
+  const toolCalls: ToolTiming[] = [];
+  const reconnectReasons: string[] = [];
+
+  let userActivityAt: number | null = null; // Set while waiting for the reply to start
+  let rateWindow = { at: startedAt, sent: 0, received: 0 };
+
+  const elapsed = () => now() - startedAt;
+
+  return {
+    audioSent: (bytes) => {
+      totals.audioChunksSent++;
+      totals.audioBytesSent += bytes;
+      rateWindow.sent += bytes;
+    },
+
+    audioReceived: (bytes) => {
+      totals.audioChunksReceived++;
+      totals.audioBytesReceived += bytes;
+      rateWindow.received += bytes;
+      if (userActivityAt !== null) {
+        push(series.latency, { t: elapsed(), v: now() - userActivityAt });
+        userActivityAt = null;
+      }
+    },
+
+    frameSent: (bytes) => {
+      totals.framesSent++;
+      totals.frameBytesSent += bytes;
+      rateWindow.sent += bytes;
+    },
+
+    userActivity: () => {
+      userActivityAt = now();
+    },
+
+    interrupted: () => {
+      totals.interruptions++;
+    },
+
+    toolCompleted: (name, rttMs, ok, authWaitMs = 0) => {
+      totals.toolCalls++;
+      toolCalls.push({ name, rttMs: Math.round(rttMs), authWaitMs: Math.round(authWaitMs), ok });
+      push(series.toolRtt, { t: elapsed(), v: rttMs });
+    },
+
+    reconnected: (reason) => {
+      totals.reconnects++;
+      reconnectReasons.push(reason);
+    },
+
+    sample: (queueDepthMs) => {
+      const at = now();
+      const t = at - startedAt;
+      push(series.queueDepth, { t, v: Math.max(0, queueDepthMs) });
+      const seconds = (at - rateWindow.at) / 1000;
+      if (seconds > 0) {
+        push(series.sendRate, { t, v: rateWindow.sent / seconds });
+        push(series.receiveRate, { t, v: rateWindow.received / seconds });
+      }
+      rateWindow = { at, sent: 0, received: 0 };
+    },
+
+    snapshot: () => ({
+      totals: { ...totals },
+      latency: [...series.latency],
+      toolRtt: [...series.toolRtt],
+      queueDepth: [...series.queueDepth],
+      sendRate: [...series.sendRate],
+      receiveRate: [...series.receiveRate],
+    }),
+
+    report: (sessionId) => ({
+      format: 'jarvis-metrics',
+      version: 1,
+      sessionId,
+      startedAt: new Date(startedAtWall).toISOString(),
+      generatedAt: new Date().toISOString(),
+      durationMs: Math.round(elapsed()),
+      totals: { ...totals },
+      latencyMs: summarize(series.latency.map(p => p.v)),
+      toolRttMs: summarize(toolCalls.map(c => c.rttMs)),
+      toolAuthWaitMs: summarize(toolCalls.filter(c => c.authWaitMs > 0).map(c => c.authWaitMs)),
+      queueDepthMs: summarize(series.queueDepth.map(p => p.v)),
+      toolCalls: [...toolCalls],
+      reconnectReasons: [...reconnectReasons],
+      series: {
+        latency: [...series.latency],
+        toolRtt: [...series.toolRtt],
+        queueDepth: [...series.queueDepth],
+        sendRate: [...series.sendRate],
+        receiveRate: [...series.receiveRate],
+      },
+    }),
+  };
+}
@@ -0,0 +1,27 @@
+/**
+ * Triggers a browser download of the given blob.
+ */
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  // Give the browser a moment to start the download before revoking
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+/**
+ * Triggers a browser download of a text file.
+ */
+export function downloadText(content: string, filename: string, mimeType = 'text/plain') {
+  downloadBlob(new Blob([content], { type: `${mimeType};charset=utf-8` }), filename);
+}
+
+/**
+ * Filesystem-safe timestamp for export file names, e.g. 2024-05-01_13-45-00.
+ */
+export function fileTimestamp(date: Date = new Date()): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}_${pad(date.getHours())}-${pad(date.getMinutes())}-${pad(date.getSeconds())}`;
+}
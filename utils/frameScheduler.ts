@@ -0,0 +1,142 @@
+import { VideoSettings } from '../types';
+
+const SETTINGS_KEY = 'jarvis_video_settings';
+
+export const DEFAULT_VIDEO_SETTINGS: VideoSettings = {
+  baseFps: 1,
+  boostFps: 3,
+  maxDimension: 1024,
+  jpegQuality: 0.5,
+  changeThreshold: 6,
+};
+
+// Downscaled grayscale signature used for change detection
+const SIG_WIDTH = 32;
+const SIG_HEIGHT = 18;
+// Send an unchanged scene at least this often so the model's view never goes stale
+const MAX_IDLE_MS = 10000;
+const DEFAULT_BOOST_MS = 3000;
+
+// Phrases that suggest the user is asking about what the camera sees
+const VISUAL_QUESTION = /看|瞧|这是什么|这个是|那个是|屏幕|画面|镜头|识别|what('?s| is) (this|that)|look|see|show/i;
+
+export interface FrameStats {
+  captured: number;
+  sent: number;
+  bytesSent: number;
+}
+
+export interface FrameScheduler {
+  /** Polling interval for the capture loop (the boosted frame period). */
+  readonly tickMs: number;
+  /** Whether a capture is due at the current (base or boosted) rate. */
+  due: (now: number) => boolean;
+  /** Fits the source into the configured maximum resolution. */
+  fit: (width: number, height: number) => { width: number; height: number };
+  /** Records a capture and decides whether the frame differs enough from the last one sent. */
+  consider: (source: CanvasImageSource, now: number) => boolean;
+  recordSent: (bytes: number) => void;
+  /** Temporarily raises the frame rate and lowers the change threshold. */
+  boost: (ms?: number) => void;
+  /** Sends the next captured frame regardless of change. */
+  forceNext: () => void;
+  stats: () => FrameStats;
+}
+
+/**
+ * True for utterances that are probably about the camera view, e.g. "这是什么" or "look at this".
+ */
+export const isVisualQuestion = (text: string) => VISUAL_QUESTION.test(text);
+
+export function createFrameScheduler(settings: VideoSettings): FrameScheduler {
+  const sigCanvas = document.createElement('canvas');
+  sigCanvas.width = SIG_WIDTH;
+  sigCanvas.height = SIG_HEIGHT;
+  const sigCtx = sigCanvas.getContext('2d', { willReadFrequently: true })!;
+
+  let lastSignature: Uint8Array | null = null;
+  let lastCaptureAt = 0;
+  let lastSentAt = 0;
+  let boostUntil = 0;
+  let force = true; // Always send the first frame
+  const stats: FrameStats = { captured: 0, sent: 0, bytesSent: 0 };
+
+  const signature = (source: CanvasImageSource): Uint8Array => {
+    sigCtx.drawImage(source, 0, 0, SIG_WIDTH, SIG_HEIGHT);
+    const { data } = sigCtx.getImageData(0, 0, SIG_WIDTH, SIG_HEIGHT);
+    const gray = new Uint8Array(SIG_WIDTH * SIG_HEIGHT);
+    for (let i = 0; i < gray.length; i++) {
+      gray[i] = (data[i * 4] * 299 + data[i * 4 + 1] * 587 + data[i * 4 + 2] * 114) / 1000;
+    }
+    return gray;
+  };
+
+  // Mean absolute per-pixel difference, 0-255
+  const difference = (a: Uint8Array, b: Uint8Array) => {
+    let sum = 0;
+    for (let i = 0; i < a.length; i++) sum += Math.abs(a[i] - b[i]);
+    return sum / a.length;
+  };
+
+  return {
+    tickMs: 1000 / Math.max(settings.baseFps, settings.boostFps),
+
+    due: (now) => {
+      const fps = now < boostUntil ? settings.boostFps : settings.baseFps;
+      // Small tolerance so timer jitter doesn't skip a beat
+      return now - lastCaptureAt >= 1000 / fps - 20;
+    },
+
+    fit: (width, height) => {
+      const scale = Math.min(1, settings.maxDimension / Math.max(width, height));
+      return { width: Math.round(width * scale), height: Math.round(height * scale) };
+    },
+
+    consider: (source, now) => {
+      lastCaptureAt = now;
+      stats.captured++;
+      const sig = signature(source);
+      const boosted = now < boostUntil;
+      const threshold = boosted ? settings.changeThreshold / 2 : settings.changeThreshold;
+
+      const changed = !lastSignature || difference(sig, lastSignature) >= threshold;
+      if (!force && !changed && now - lastSentAt < MAX_IDLE_MS) return false;
+
+      force = false;
+      lastSignature = sig;
+      lastSentAt = now;
+      return true;
+    },
+
+    recordSent: (bytes) => {
+      stats.sent++;
+      stats.bytesSent += bytes;
+    },
+
+    boost: (ms = DEFAULT_BOOST_MS) => {
+      boostUntil = Math.max(boostUntil, Date.now() + ms);
+    },
+
+    forceNext: () => {
+      force = true;
+      lastCaptureAt = 0;
+    },
+
+    stats: () => ({ ...stats }),
+  };
+}
+
+export const VideoSettingsService = {
+  load: (): VideoSettings => {
+    try {
+      const stored = localStorage.getItem(SETTINGS_KEY);
+      return stored ? { ...DEFAULT_VIDEO_SETTINGS, ...JSON.parse(stored) } : DEFAULT_VIDEO_SETTINGS;
+    } catch (e) {
+      return DEFAULT_VIDEO_SETTINGS;
+    }
+  },
+
+  save: (settings: VideoSettings) => {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  },
+};
@@ -0,0 +1,132 @@
+import { HistoryRetention, SessionEvent, SessionRecord } from '../types';
+import { SESSION_STORE, promisify, withStore } from './db';
+
+const RETENTION_KEY = 'jarvis_history_retention';
+
+export const DEFAULT_RETENTION: HistoryRetention = {
+  maxSessions: 50,
+  maxAgeDays: 30,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface SessionSummary {
+  id: string;
+  startedAt: number;
+  endedAt?: number;
+  title: string;
+  eventCount: number;
+}
+
+export interface SearchHit {
+  session: SessionSummary;
+  matches: SessionEvent[];
+}
+
+const withSessions = <T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => Promise<T>) =>
+  withStore(SESSION_STORE, mode, fn);
+
+const summarize = (s: SessionRecord): SessionSummary => ({
+  id: s.id,
+  startedAt: s.startedAt,
+  endedAt: s.endedAt,
+  title: s.title,
+  eventCount: s.events.length,
+});
+
+const formatTime = (ts: number) => new Date(ts).toLocaleString('zh-CN');
+
+export const HistoryService = {
+  /**
+   * Writes (or rewrites) a session record.
+   */
+  save: (session: SessionRecord): Promise<void> => {
+    return withSessions('readwrite', store => promisify(store.put(session)).then(() => {}));
+  },
+
+  /**
+   * All sessions, newest first.
+   */
+  loadAll: async (): Promise<SessionRecord[]> => {
+    const sessions = await withSessions('readonly', store => promisify<SessionRecord[]>(store.index('startedAt').getAll()));
+    return sessions.reverse();
+  },
+
+  list: async (): Promise<SessionSummary[]> => {
+    return (await HistoryService.loadAll()).map(summarize);
+  },
+
+  get: (id: string): Promise<SessionRecord | undefined> => {
+    return withSessions('readonly', store => promisify<SessionRecord | undefined>(store.get(id)));
+  },
+
+  remove: (id: string): Promise<void> => {
+    return withSessions('readwrite', store => promisify(store.delete(id)).then(() => {}));
+  },
+
+  /**
+   * Case-insensitive full-text search over every event in every session.
+   */
+  search: async (query: string): Promise<SearchHit[]> => {
+    const q = query.trim().toLowerCase();
+    if (!q) return [];
+    return (await HistoryService.loadAll())
+      .map(s => ({ session: summarize(s), matches: s.events.filter(e => e.message.toLowerCase().includes(q)) }))
+      .filter(hit => hit.matches.length > 0);
+  },
+
+  loadRetention: (): HistoryRetention => {
+    try {
+      const stored = localStorage.getItem(RETENTION_KEY);
+      return stored ? { ...DEFAULT_RETENTION, ...JSON.parse(stored) } : DEFAULT_RETENTION;
+    } catch (e) {
+      return DEFAULT_RETENTION;
+    }
+  },
+
+  saveRetention: (retention: HistoryRetention) => {
+    localStorage.setItem(RETENTION_KEY, JSON.stringify(retention));
+  },
+
+  /**
+   * Deletes sessions beyond the configured count or age. Resolves to the number removed.
+   */
+  applyRetention: async (retention: HistoryRetention = HistoryService.loadRetention()): Promise<number> => {
+    const cutoff = Date.now() - retention.maxAgeDays * DAY_MS;
+    const expired = (await HistoryService.loadAll())
+      .filter((s, i) => i >= retention.maxSessions || s.startedAt < cutoff)
+      .map(s => s.id);
+    if (expired.length === 0) return 0;
+
+    await withSessions('readwrite', async store => {
+      await Promise.all(expired.map(id => promisify(store.delete(id))));
+    });
+    return expired.length;
+  },
+
+  toJson: (session: SessionRecord): string => JSON.stringify(session, null, 2),
+
+  toMarkdown: (session: SessionRecord): string => {
+    const lines = [
+      `# ${session.title}`,
+      '',
+      `- 开始: ${formatTime(session.startedAt)}`,
+      `- 结束: ${session.endedAt ? formatTime(session.endedAt) : '未结束'}`,
+      `- 会话 ID: ${session.id}`,
+      '',
+    ];
+    session.events.forEach(e => {
+      const time = new Date(e.timestamp).toLocaleTimeString('zh-CN');
+      if (e.kind === 'transcript') {
+        lines.push(`**[${time}] ${e.source}:** ${e.message}`, '');
+      } else if (e.kind === 'tool' || e.kind === 'detection') {
+        lines.push(`> [${time}] ${e.kind === 'tool' ? '工具' : '识别'}: ${e.message}`, '>', '> ```json');
+        JSON.stringify(e.data, null, 2).split('\n').forEach(l => lines.push(`> ${l}`));
+        lines.push('> ```', '');
+      } else {
+        lines.push(`_[${time}] ${e.source}: ${e.message}_`, '');
+      }
+    });
+    return lines.join('\n');
+  },
+};
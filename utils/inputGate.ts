@@ -0,0 +1,175 @@
+import { InputMode, InputSettings } from '../types';
+import { isValidWakePhrase } from './wakeWord';
+
+const SETTINGS_KEY = 'jarvis_input_settings';
+
+export const DEFAULT_INPUT_SETTINGS: InputSettings = {
+  mode: 'always',
+  wakePhrase: '贾维斯',
+  wakeAllowCloud: false,
+};
+
+export const INPUT_MODE_LABELS: Record<InputMode, string> = {
+  always: '常开',
+  ptt: '按键通话',
+  vad: '语音检测',
+  wake: '唤醒词',
+};
+
+// VAD tuning, in capture chunks (~40 ms each on the worklet path)
+const ONSET_CHUNKS = 2;        // consecutive loud chunks before speech starts
+const HANGOVER_MS = 800;       // keep streaming this long after the last loud chunk
+const PRE_ROLL_CHUNKS = 8;     // buffered audio sent ahead of detected speech so onsets aren't clipped
+const MIN_THRESHOLD_DB = -50;  // never treat anything quieter than this as speech
+const THRESHOLD_ABOVE_FLOOR_DB = 12;
+
+// Wake mode stays open until the user has been quiet this long after waking it
+const WAKE_IDLE_MS = 2500;
+
+export interface InputGate {
+  readonly mode: InputMode;
+  /**
+   * Feeds one captured chunk through the gate. Returns the chunks to stream now:
+   * empty when closed, possibly several when buffered pre-roll is released.
+   */
+  process: (chunk: Int16Array) => Int16Array[];
+  /** Push-to-talk key or button state. */
+  setPushToTalk: (held: boolean) => void;
+  /** Wake phrase was detected. */
+  wake: () => void;
+}
+
+const rmsDb = (chunk: Int16Array) => {
+  let sum = 0;
+  for (let i = 0; i < chunk.length; i++) sum += chunk[i] * chunk[i];
+  const rms = Math.sqrt(sum / (chunk.length || 1)) / 32768;
+  return 20 * Math.log10(rms || 1e-9);
+};
+
+/**
+ * Energy-based voice activity detector with an adaptive noise floor.
+ */
+function createVad() {
+  let noiseFloor = -60;
+  let loudRun = 0;
+  let speaking = false;
+  let lastLoudAt = 0;
+
+  return {
+    update: (chunk: Int16Array, now: number): boolean => {
+      const db = rmsDb(chunk);
+      const threshold = Math.max(MIN_THRESHOLD_DB, noiseFloor + THRESHOLD_ABOVE_FLOOR_DB);
+
+      if (db > threshold) {
+        loudRun++;
+        lastLoudAt = now;
+        if (loudRun >= ONSET_CHUNKS) speaking = true;
+      } else {
+        loudRun = 0;
+        // Only learn the floor from non-speech, so long utterances don't raise it
+        if (!speaking) noiseFloor = 0.95 * noiseFloor + 0.05 * db;
+        if (speaking && now - lastLoudAt > HANGOVER_MS) speaking = false;
+      }
+      return speaking;
+    },
+  };
+}
+
+/**
+ * Builds the gate deciding which mic chunks reach the live session. `onOpenChange`
+ * fires on every open/close transition so the UI and session can react.
+ */
+export function createInputGate(mode: InputMode, onOpenChange: (open: boolean) => void): InputGate {
+  const vad = createVad();
+  const preRoll: Int16Array[] = [];
+  let open = mode === 'always';
+  let pttHeld = false;
+  let awakeSince = 0;
+  let lastVoiceAt = 0;
+
+  const setOpen = (next: boolean) => {
+    if (next === open) return;
+    open = next;
+    onOpenChange(open);
+  };
+
+  const release = (chunk: Int16Array): Int16Array[] => {
+    const out = [...preRoll, chunk];
+    preRoll.length = 0;
+    return out;
+  };
+
+  const buffer = (chunk: Int16Array): Int16Array[] => {
+    preRoll.push(chunk);
+    if (preRoll.length > PRE_ROLL_CHUNKS) preRoll.shift();
+    return [];
+  };
+
+  return {
+    mode,
+    process: (chunk) => {
+      const now = Date.now();
+      switch (mode) {
+        case 'always':
+          return [chunk];
+        case 'ptt':
+          setOpen(pttHeld);
+          return pttHeld ? [chunk] : [];
+        case 'vad': {
+          const speaking = vad.update(chunk, now);
+          const wasOpen = open;
+          setOpen(speaking);
+          if (!speaking) return wasOpen ? [chunk] : buffer(chunk);
+          return wasOpen ? [chunk] : release(chunk);
+        }
+        case 'wake': {
+          const speaking = vad.update(chunk, now);
+          if (!awakeSince) return buffer(chunk);
+          if (speaking) lastVoiceAt = now;
+          if (now - Math.max(lastVoiceAt, awakeSince) > WAKE_IDLE_MS) {
+            awakeSince = 0;
+            setOpen(false);
+            return [];
+          }
+          return release(chunk);
+        }
+      }
+    },
+    setPushToTalk: (held) => {
+      pttHeld = held;
+      if (mode === 'ptt') setOpen(held);
+    },
+    wake: () => {
+      if (mode !== 'wake') return;
+      awakeSince = Date.now();
+      lastVoiceAt = awakeSince;
+      setOpen(true);
+    },
+  };
+}
+
+// A blank wake phrase would open the mic on any speech, so it falls back to the default
+const withValidPhrase = (settings: InputSettings): InputSettings =>
+  isValidWakePhrase(settings.wakePhrase || '')
+    ? { ...settings, wakePhrase: settings.wakePhrase.trim() }
+    : { ...settings, wakePhrase: DEFAULT_INPUT_SETTINGS.wakePhrase };
+
+export const InputSettingsService = {
+  load: (): InputSettings => {
+    try {
+      const stored = localStorage.getItem(SETTINGS_KEY);
+      return stored ? withValidPhrase({ ...DEFAULT_INPUT_SETTINGS, ...JSON.parse(stored) }) : DEFAULT_INPUT_SETTINGS;
+    } catch (e) {
+      return DEFAULT_INPUT_SETTINGS;
+    }
+  },
+
+  /**
+   * Stores the settings and returns them as stored, with a blank wake phrase replaced by the default.
+   */
+  save: (settings: InputSettings): InputSettings => {
+    const valid = withValidPhrase(settings);
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(valid));
+    return valid;
+  },
+};
@@ -0,0 +1,101 @@
+import { LogEntry } from '../types';
+
+const SETTINGS_KEY = 'jarvis_log_settings';
+
+export const LOG_CAPACITY_OPTIONS = [200, 500, 1000, 5000];
+export const DEFAULT_LOG_CAPACITY = 1000;
+
+export interface LogBuffer {
+  capacity: () => number;
+  /** Adds an entry, overwriting the oldest once full, and returns it with its sequence number. */
+  push: (entry: Omit<LogEntry, 'seq'>) => LogEntry;
+  /** Patches an entry in place; entries already evicted are ignored. */
+  update: (id: string, patch: Partial<LogEntry>) => void;
+  /** Changes the cap, keeping the newest entries. */
+  resize: (capacity: number) => void;
+  clear: () => void;
+  /** Oldest first. */
+  toArray: () => LogEntry[];
+}
+
+/**
+ * Fixed-capacity ring of log entries, so long sessions don't grow memory or render cost without bound.
+ */
+export function createLogBuffer(initialCapacity: number = DEFAULT_LOG_CAPACITY): LogBuffer {
+  let slots: (LogEntry | undefined)[] = new Array(initialCapacity);
+  let start = 0; // Index of the oldest entry
+  let size = 0;
+  let nextSeq = 1; // Never reset, so callers can tell new entries from old ones even once full
+  const index = new Map<string, number>(); // id -> slot
+
+  const toArray = () => {
+    const out: LogEntry[] = [];
+    for (let i = 0; i < size; i++) out.push(slots[(start + i) % slots.length]!);
+    return out;
+  };
+
+  const rebuild = (entries: LogEntry[], capacity: number) => {
+    const kept = entries.slice(-capacity);
+    slots = new Array(capacity);
+    kept.forEach((entry, i) => { slots[i] = entry; });
+    start = 0;
+    size = kept.length;
+    index.clear();
+    kept.forEach((entry, i) => index.set(entry.id, i));
+  };
+
+  return {
+    capacity: () => slots.length,
+
+    push: (fields) => {
+      const entry: LogEntry = { ...fields, seq: nextSeq++ };
+      const slot = (start + size) % slots.length;
+      if (size === slots.length) {
+        index.delete(slots[start]!.id);
+        start = (start + 1) % slots.length;
+      } else {
+        size++;
+      }
+      slots[slot] = entry;
+      index.set(entry.id, slot);
+      return entry;
+    },
+
+    update: (id, patch) => {
+      const slot = index.get(id);
+      if (slot === undefined) return;
+      slots[slot] = { ...slots[slot]!, ...patch };
+    },
+
+    resize: (capacity) => {
+      if (capacity !== slots.length) rebuild(toArray(), capacity);
+    },
+
+    clear: () => rebuild([], slots.length),
+
+    toArray,
+  };
+}
+
+export const LogSettingsService = {
+  loadCapacity: (): number => {
+    try {
+      const stored = localStorage.getItem(SETTINGS_KEY);
+      const capacity = stored ? JSON.parse(stored).capacity : DEFAULT_LOG_CAPACITY;
+      return Number.isInteger(capacity) && capacity > 0 ? capacity : DEFAULT_LOG_CAPACITY;
+    } catch (e) {
+      return DEFAULT_LOG_CAPACITY;
+    }
+  },
+
+  saveCapacity: (capacity: number) => {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify({ capacity }));
+  },
+};
+
+/**
+ * One line per entry, for copying and export.
+ */
+export function formatLogs(entries: LogEntry[]): string {
+  return entries.map(l => `[${l.timestamp}] ${l.source} ${l.type.toUpperCase()}: ${l.message}`).join('\n');
+}
@@ -0,0 +1,181 @@
+import { MemoryItem } from '../types';
+import { MemoryService } from './memoryService';
+
+/**
+ * Backup file format (version 1):
+ *
+ * {
+ *   "format": "jarvis-memory-backup",
+ *   "version": 1,
+ *   "exportedAt": "2024-05-01T13:45:00.000Z",
+ *   "count": 2,
+ *   "memories": [
+ *     { "key": "生日", "value": "3月3日", "addedAt": 1714571100000, "category": "个人信息", ... }
+ *   ]
+ * }
+ *
+ * Each entry is a MemoryItem. `key`, `value` (strings) and `addedAt` (epoch ms) are required;
+ * every other field is optional. A bare array of MemoryItem (the old localStorage blob) is also accepted.
+ */
+export const BACKUP_FORMAT = 'jarvis-memory-backup';
+export const BACKUP_VERSION = 1;
+
+export interface MemoryBackup {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: string;
+  count: number;
+  memories: MemoryItem[];
+}
+
+/**
+ * How to handle an imported memory whose key already exists:
+ * - skip: keep the existing memory
+ * - overwrite: replace it with the imported one
+ * - keepBoth: import under a suffixed key ("地址 (2)")
+ */
+export type MergeStrategy = 'skip' | 'overwrite' | 'keepBoth';
+
+export interface RejectedRow {
+  index: number;
+  reason: string;
+}
+
+export interface ImportReport {
+  imported: number;
+  skipped: number;
+  renamed: number;
+  rejected: RejectedRow[];
+}
+
+const OPTIONAL_STRINGS = ['category', 'sourceSession'] as const;
+const OPTIONAL_NUMBERS = ['updatedAt', 'accessCount', 'lastUsedAt', 'confidence'] as const;
+
+/**
+ * Checks a raw entry against the MemoryItem shape. Unknown fields are dropped.
+ */
+function validateEntry(raw: unknown): { item: MemoryItem } | { reason: string } {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return { reason: '不是对象' };
+  const r = raw as Record<string, unknown>;
+
+  if (typeof r.key !== 'string' || !r.key.trim()) return { reason: '缺少 key' };
+  if (typeof r.value !== 'string') return { reason: 'value 必须是字符串' };
+  if (typeof r.addedAt !== 'number' || !Number.isFinite(r.addedAt)) return { reason: 'addedAt 必须是时间戳' };
+
+  const item: MemoryItem = { key: r.key.trim(), value: r.value, addedAt: r.addedAt };
+  for (const field of OPTIONAL_STRINGS) {
+    if (r[field] === undefined) continue;
+    if (typeof r[field] !== 'string') return { reason: `${field} 必须是字符串` };
+    item[field] = r[field] as string;
+  }
+  for (const field of OPTIONAL_NUMBERS) {
+    if (r[field] === undefined) continue;
+    if (typeof r[field] !== 'number' || !Number.isFinite(r[field])) return { reason: `${field} 必须是数字` };
+    item[field] = r[field] as number;
+  }
+  if (item.confidence !== undefined && (item.confidence < 0 || item.confidence > 1)) {
+    return { reason: 'confidence 必须在 0 到 1 之间' };
+  }
+  return { item };
+}
+
+const uniqueKey = (key: string, taken: Set<string>) => {
+  let n = 2;
+  while (taken.has(`${key} (${n})`)) n++;
+  return `${key} (${n})`;
+};
+
+export const MemoryBackupService = {
+  /**
+   * Serializes all memories into the versioned JSON backup format.
+   */
+  exportJson: async (): Promise<string> => {
+    const memories = await MemoryService.load();
+    const backup: MemoryBackup = {
+      format: BACKUP_FORMAT,
+      version: BACKUP_VERSION,
+      exportedAt: new Date().toISOString(),
+      count: memories.length,
+      memories,
+    };
+    return JSON.stringify(backup, null, 2);
+  },
+
+  /**
+   * Human-readable export, grouped by category. Not importable.
+   */
+  exportMarkdown: async (): Promise<string> => {
+    const memories = await MemoryService.load();
+    const groups = new Map<string, MemoryItem[]>();
+    memories.forEach(m => {
+      const cat = m.category || '未分类';
+      groups.set(cat, [...(groups.get(cat) || []), m]);
+    });
+
+    const lines = [`# JARVIS 长期记忆`, '', `导出时间: ${new Date().toLocaleString('zh-CN')}，共 ${memories.length} 条`, ''];
+    groups.forEach((items, cat) => {
+      lines.push(`## ${cat}`, '');
+      items.forEach(m => {
+        const meta = [`添加于 ${new Date(m.addedAt).toLocaleString('zh-CN')}`];
+        if (m.confidence !== undefined) meta.push(`置信度 ${m.confidence}`);
+        lines.push(`- **${m.key}**: ${m.value}  `, `  _${meta.join(' · ')}_`);
+      });
+      lines.push('');
+    });
+    return lines.join('\n');
+  },
+
+  /**
+   * Validates a backup file and merges it into the store. Invalid rows are reported, never written.
+   * Throws if the file itself is not a recognizable backup.
+   */
+  importJson: async (text: string, strategy: MergeStrategy): Promise<ImportReport> => {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch (e) {
+      throw new Error('文件不是有效的 JSON');
+    }
+
+    let rows: unknown[];
+    if (Array.isArray(parsed)) {
+      rows = parsed;
+    } else if (parsed && typeof parsed === 'object' && (parsed as MemoryBackup).format === BACKUP_FORMAT) {
+      const backup = parsed as MemoryBackup;
+      if (backup.version > BACKUP_VERSION) throw new Error(`不支持的备份版本: ${backup.version}`);
+      if (!Array.isArray(backup.memories)) throw new Error('备份缺少 memories 数组');
+      rows = backup.memories;
+    } else {
+      throw new Error('无法识别的备份格式');
+    }
+
+    const report: ImportReport = { imported: 0, skipped: 0, renamed: 0, rejected: [] };
+    const taken = new Set((await MemoryService.load()).map(m => m.key));
+    const toWrite: MemoryItem[] = [];
+
+    rows.forEach((raw, index) => {
+      const result = validateEntry(raw);
+      if ('reason' in result) {
+        report.rejected.push({ index, reason: result.reason });
+        return;
+      }
+      const item = result.item;
+      if (taken.has(item.key)) {
+        if (strategy === 'skip') {
+          report.skipped++;
+          return;
+        }
+        if (strategy === 'keepBoth') {
+          item.key = uniqueKey(item.key, taken);
+          report.renamed++;
+        }
+      }
+      taken.add(item.key);
+      toWrite.push(item);
+    });
+
+    await MemoryService.putAll(toWrite);
+    report.imported = toWrite.length;
+    return report;
+  },
+};
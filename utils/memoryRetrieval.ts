@@ -0,0 +1,126 @@
+import { MemoryItem } from '../types';
+import { MemoryService } from './memoryService';
+
+// BM25 parameters (standard defaults)
+const K1 = 1.2;
+const B = 0.75;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const FRESHNESS_HALF_LIFE_DAYS = 30;
+
+export const DEFAULT_CONTEXT_TOKEN_BUDGET = 600;
+
+export interface ScoredMemory {
+  item: MemoryItem;
+  score: number;
+}
+
+/**
+ * Splits text into index terms. Latin text is split into lowercase words;
+ * CJK runs, which have no word boundaries, are indexed as overlapping bigrams
+ * (plus the single character for one-character runs).
+ */
+export function tokenize(text: string): string[] {
+  const terms: string[] = [];
+  const lower = text.toLowerCase();
+
+  for (const word of lower.match(/[a-z0-9]+/g) || []) terms.push(word);
+
+  for (const run of lower.match(/[㐀-鿿]+/g) || []) {
+    if (run.length === 1) terms.push(run);
+    for (let i = 0; i < run.length - 1; i++) terms.push(run.slice(i, i + 2));
+  }
+  return terms;
+}
+
+/**
+ * Rough token count: CJK characters cost about one token each, other text about four characters per token.
+ */
+export function estimateTokens(text: string): number {
+  const cjk = (text.match(/[㐀-鿿]/g) || []).length;
+  return Math.ceil(cjk + (text.length - cjk) / 4);
+}
+
+/**
+ * Boost for facts that were used recently and often. Ranges from 0.5 (stale, never used) upwards.
+ */
+function usageBoost(item: MemoryItem, now: number): number {
+  const lastTouched = item.lastUsedAt || item.updatedAt || item.addedAt;
+  const ageDays = Math.max(0, now - lastTouched) / DAY_MS;
+  const freshness = 0.5 + 0.5 * Math.pow(0.5, ageDays / FRESHNESS_HALF_LIFE_DAYS);
+  const frequency = 1 + 0.3 * Math.log1p(item.accessCount || 0);
+  return freshness * frequency;
+}
+
+const formatMemory = (m: MemoryItem) => `- [记忆-${m.key}]: ${m.value}`;
+
+export const MemoryRetrieval = {
+  /**
+   * Scores every memory against the query with BM25, weighted by freshness and access frequency.
+   * With an empty query, memories are ordered by freshness and frequency alone.
+   */
+  rank: (memories: MemoryItem[], query: string, now: number = Date.now()): ScoredMemory[] => {
+    const queryTerms = Array.from(new Set(tokenize(query)));
+    const docs = memories.map(m => tokenize(`${m.key} ${m.value}`));
+    const avgLen = docs.reduce((sum, d) => sum + d.length, 0) / (docs.length || 1);
+
+    const docFreq = new Map<string, number>();
+    docs.forEach(terms => new Set(terms).forEach(t => docFreq.set(t, (docFreq.get(t) || 0) + 1)));
+
+    return memories
+      .map((item, i) => {
+        const terms = docs[i];
+        let relevance = 0;
+        for (const q of queryTerms) {
+          const tf = terms.filter(t => t === q).length;
+          if (tf === 0) continue;
+          const df = docFreq.get(q) || 0;
+          const idf = Math.log(1 + (memories.length - df + 0.5) / (df + 0.5));
+          relevance += idf * (tf * (K1 + 1)) / (tf + K1 * (1 - B + B * terms.length / (avgLen || 1)));
+        }
+        const base = queryTerms.length > 0 ? relevance : 1;
+        return { item, score: base * usageBoost(item, now) };
+      })
+      .filter(s => s.score > 0)
+      .sort((a, b) => b.score - a.score);
+  },
+
+  /**
+   * Top matches for an on-demand lookup. Records an access for everything returned.
+   */
+  search: async (query: string, limit = 5): Promise<MemoryItem[]> => {
+    const results = MemoryRetrieval.rank(await MemoryService.load(), query).slice(0, limit).map(s => s.item);
+    await MemoryService.recordAccess(results.map(m => m.key));
+    return results;
+  },
+
+  /**
+   * Picks the most relevant memories for the conversation so far, stopping at the token budget.
+   * Keys in `exclude` (already sent this session) are skipped. Doesn't count as an access:
+   * injection happens every turn, and counting it would keep promoting whatever already ranks highest.
+   */
+  selectForContext: async (
+    conversation: string,
+    tokenBudget: number = DEFAULT_CONTEXT_TOKEN_BUDGET,
+    exclude: Set<string> = new Set()
+  ): Promise<MemoryItem[]> => {
+    const selected: MemoryItem[] = [];
+    let used = 0;
+    for (const { item } of MemoryRetrieval.rank(await MemoryService.load(), conversation)) {
+      if (exclude.has(item.key)) continue;
+      const cost = estimateTokens(formatMemory(item));
+      if (used + cost > tokenBudget) continue;
+      selected.push(item);
+      used += cost;
+    }
+    return selected;
+  },
+
+  /**
+   * Renders selected memories the same way the system instruction expects them.
+   */
+  format: (memories: MemoryItem[]): string => {
+    if (memories.length === 0) return "暂无历史记忆。";
+    return memories.map(formatMemory).join('\n');
+  },
+};
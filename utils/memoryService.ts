@@ -1,50 +1,112 @@
 import { MemoryItem } from '../types';
+import { MEMORY_STORE, promisify, withStore } from './db';
 
-const MEMORY_KEY = 'jarvis_long_term_memory';
+export interface MemoryMeta {
+  category?: string;
+  sourceSession?: string;
+  confidence?: number;
+}
+
+const withMemories = <T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => Promise<T>) =>
+  withStore(MEMORY_STORE, mode, fn);
 
 export const MemoryService = {
   /**
-   * Loads all memories from storage.
+   * Loads all memories, oldest first.
+   */
+  load: (): Promise<MemoryItem[]> => {
+    return withMemories('readonly', store => promisify<MemoryItem[]>(store.index('addedAt').getAll()));
+  },
+
+  /**
+   * Saves a fact, replacing any existing memory with the same key.
    */
-  load: (): MemoryItem[] => {
-    try {
-      const stored = localStorage.getItem(MEMORY_KEY);
-      return stored ? JSON.parse(stored) : [];
-    } catch (e) {
-      console.error("无法加载记忆库", e);
-      return [];
-    }
+  save: (key: string, value: string, meta: MemoryMeta = {}): Promise<MemoryItem> => {
+    return withMemories('readwrite', async store => {
+      const existing = await promisify<MemoryItem | undefined>(store.get(key));
+      const newItem: MemoryItem = {
+        ...meta,
+        key,
+        value,
+        addedAt: Date.now(),
+        accessCount: existing?.accessCount,
+        lastUsedAt: existing?.lastUsedAt,
+      };
+      await promisify(store.put(newItem));
+      return newItem;
+    });
   },
 
   /**
-   * Saves a new fact.
+   * Writes fully-formed items as-is in one transaction, e.g. from an import.
    */
-  save: (key: string, value: string): MemoryItem => {
-    const memories = MemoryService.load();
-    const newItem: MemoryItem = { key, value, addedAt: Date.now() };
-    
-    // Remove duplicates for the same key roughly
-    const filtered = memories.filter(m => m.key !== key);
-    filtered.push(newItem);
-    
-    localStorage.setItem(MEMORY_KEY, JSON.stringify(filtered));
-    return newItem;
+  putAll: (items: MemoryItem[]): Promise<void> => {
+    return withMemories('readwrite', async store => {
+      await Promise.all(items.map(item => promisify(store.put(item))));
+    });
+  },
+
+  /**
+   * Finds memories whose key or value contains any of the query's keywords.
+   * An exact key match is always returned first.
+   */
+  recall: async (query: string): Promise<MemoryItem[]> => {
+    const memories = await MemoryService.load();
+    const exact = memories.filter(m => m.key === query);
+    const keywords = query.toLowerCase().split(/\s+/).filter(Boolean);
+    const partial = memories.filter(m => {
+      if (m.key === query) return false;
+      const haystack = `${m.key} ${m.value}`.toLowerCase();
+      return keywords.some(k => haystack.includes(k));
+    });
+    return [...exact, ...partial];
+  },
+
+  /**
+   * Replaces the value of an existing memory. Resolves to null if the key is unknown.
+   */
+  update: (key: string, value: string): Promise<MemoryItem | null> => {
+    return withMemories('readwrite', async store => {
+      const target = await promisify<MemoryItem | undefined>(store.get(key));
+      if (!target) return null;
+
+      const updated = { ...target, value, updatedAt: Date.now() };
+      await promisify(store.put(updated));
+      return updated;
+    });
+  },
+
+  /**
+   * Removes a single memory by key. Resolves to the removed item, or null if the key is unknown.
+   */
+  forget: (key: string): Promise<MemoryItem | null> => {
+    return withMemories('readwrite', async store => {
+      const target = await promisify<MemoryItem | undefined>(store.get(key));
+      if (!target) return null;
+
+      await promisify(store.delete(key));
+      return target;
+    });
   },
 
   /**
-   * Generates a context string to feed into the AI system instruction.
+   * Bumps the access counter and last-used time of the given memories, for retrieval ranking.
    */
-  getContextString: (): string => {
-    const memories = MemoryService.load();
-    if (memories.length === 0) return "暂无历史记忆。";
-    
-    return memories.map(m => `- [记忆-${m.key}]: ${m.value}`).join('\n');
+  recordAccess: async (keys: string[]): Promise<void> => {
+    if (keys.length === 0) return;
+    const now = Date.now();
+    await withMemories('readwrite', async store => {
+      for (const key of keys) {
+        const m = await promisify<MemoryItem | undefined>(store.get(key));
+        if (m) await promisify(store.put({ ...m, accessCount: (m.accessCount || 0) + 1, lastUsedAt: now }));
+      }
+    });
   },
 
   /**
    * Clears memory.
    */
-  clear: () => {
-    localStorage.removeItem(MEMORY_KEY);
+  clear: (): Promise<void> => {
+    return withMemories('readwrite', store => promisify(store.clear()).then(() => {}));
   }
-};
\ No newline at end of file
+};
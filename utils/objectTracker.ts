@@ -0,0 +1,145 @@
+import { AROverlayData, Detection } from '../types';
+
+type Box = [number, number, number, number];
+
+// A detection must overlap an existing track of the same label this much to continue it
+const MATCH_IOU = 0.3;
+// Tracks not re-detected within this window are dropped
+const TRACK_TTL_MS = 4000;
+// Tracks fade out over the last part of their lifetime
+const FADE_MS = 1000;
+// Per-frame interpolation toward the latest detection; lower is smoother but laggier
+const RENDER_SMOOTHING = 0.2;
+
+const PALETTE = ['#22d3ee', '#a3e635', '#f472b6', '#facc15', '#fb923c', '#818cf8', '#34d399', '#f87171'];
+
+/**
+ * Stable color per label, so "杯子" is always drawn in the same color.
+ */
+export function labelColor(label: string): string {
+  let hash = 0;
+  for (let i = 0; i < label.length; i++) hash = (hash * 31 + label.charCodeAt(i)) | 0;
+  return PALETTE[Math.abs(hash) % PALETTE.length];
+}
+
+function iou(a: Box, b: Box): number {
+  const [ay0, ax0, ay1, ax1] = a;
+  const [by0, bx0, by1, bx1] = b;
+  const ih = Math.max(0, Math.min(ay1, by1) - Math.max(ay0, by0));
+  const iw = Math.max(0, Math.min(ax1, bx1) - Math.max(ax0, bx0));
+  const inter = ih * iw;
+  const union = (ay1 - ay0) * (ax1 - ax0) + (by1 - by0) * (bx1 - bx0) - inter;
+  return union > 0 ? inter / union : 0;
+}
+
+const lerpBox = (from: Box, to: Box, t: number): Box =>
+  from.map((v, i) => v + (to[i] - v) * t) as Box;
+
+/**
+ * Checks a detection reported by the model. Boxes are [ymin, xmin, ymax, xmax] in 0-100.
+ */
+export function validateDetection(raw: unknown): Detection | string {
+  if (typeof raw !== 'object' || raw === null) return '缺少 label';
+  const label = 'label' in raw && typeof raw.label === 'string' ? raw.label.trim() : '';
+  if (!label) return '缺少 label';
+  const box = 'box' in raw ? raw.box : undefined;
+  if (!Array.isArray(box) || box.length !== 4 || box.some((v: unknown) => typeof v !== 'number' || !Number.isFinite(v))) {
+    return `${label}: box 必须是 4 个数字`;
+  }
+  const clamped = box.map((v: number) => Math.max(0, Math.min(100, v))) as Box;
+  if (clamped[2] <= clamped[0] || clamped[3] <= clamped[1]) return `${label}: box 尺寸无效`;
+  const confidence = 'confidence' in raw && typeof raw.confidence === 'number' ? Math.max(0, Math.min(1, raw.confidence)) : 1;
+  return { label, box: clamped, confidence };
+}
+
+interface Track extends AROverlayData {
+  target: Box; // Latest detected box; `box` eases toward it
+}
+
+export interface ObjectTracker {
+  /** Associates new detections with existing tracks and returns the tracks they updated or created. */
+  update: (detections: Detection[], now?: number) => AROverlayData[];
+  /** Advances smoothing and expiry; returns what should be drawn this frame with its opacity. */
+  step: (now?: number) => { overlay: AROverlayData; alpha: number }[];
+  /** Live tracks as of the last step, without advancing them. */
+  current: () => AROverlayData[];
+  /** Pinned tracks stay on screen until unpinned, even when no longer detected. */
+  pin: (trackId: string, pinned: boolean) => AROverlayData | null;
+  clear: () => void;
+}
+
+export function createObjectTracker(): ObjectTracker {
+  let tracks: Track[] = [];
+  let nextId = 1;
+
+  return {
+    update: (detections, now = Date.now()) => {
+      const touched: Track[] = [];
+      const unmatched = new Set(tracks);
+
+      // Greedy matching, best overlaps first
+      const candidates: { det: Detection; track: Track; score: number }[] = [];
+      detections.forEach(det => tracks.forEach(track => {
+        if (track.label !== det.label) return;
+        const score = iou(track.target, det.box);
+        if (score >= MATCH_IOU) candidates.push({ det, track, score });
+      }));
+      candidates.sort((a, b) => b.score - a.score);
+
+      const matchedDets = new Set<Detection>();
+      for (const { det, track } of candidates) {
+        if (matchedDets.has(det) || !unmatched.has(track)) continue;
+        matchedDets.add(det);
+        unmatched.delete(track);
+        track.target = det.box;
+        track.confidence = det.confidence;
+        track.timestamp = now;
+        touched.push(track);
+      }
+
+      detections.filter(d => !matchedDets.has(d)).forEach(det => {
+        const trackId = `${det.label}#${nextId++}`;
+        const track: Track = {
+          id: trackId,
+          trackId,
+          label: det.label,
+          box: det.box,
+          target: det.box,
+          confidence: det.confidence,
+          color: labelColor(det.label),
+          timestamp: now,
+        };
+        tracks.push(track);
+        touched.push(track);
+      });
+
+      return touched.map(({ target, ...overlay }) => overlay);
+    },
+
+    step: (now = Date.now()) => {
+      tracks = tracks.filter(t => t.pinned || now - t.timestamp < TRACK_TTL_MS);
+      return tracks.map(track => {
+        track.box = lerpBox(track.box, track.target, RENDER_SMOOTHING);
+        const remaining = TRACK_TTL_MS - (now - track.timestamp);
+        const { target, ...overlay } = track;
+        return { overlay, alpha: track.pinned ? 1 : Math.min(1, remaining / FADE_MS) };
+      });
+    },
+
+    current: () => tracks.map(({ target, ...overlay }) => overlay),
+
+    pin: (trackId, pinned) => {
+      const track = tracks.find(t => t.trackId === trackId);
+      if (!track) return null;
+      track.pinned = pinned;
+      // Unpinning restarts the expiry clock so the box doesn't vanish immediately
+      if (!pinned) track.timestamp = Date.now();
+      const { target, ...overlay } = track;
+      return overlay;
+    },
+
+    clear: () => {
+      tracks = [];
+    },
+  };
+}
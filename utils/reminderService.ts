@@ -0,0 +1,271 @@
+import { ReminderItem } from '../types';
+
+const REMINDER_KEY = 'jarvis_reminders';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+const CN_DIGITS: Record<string, number> = {
+  '零': 0, '〇': 0, '一': 1, '二': 2, '两': 2, '三': 3, '四': 4,
+  '五': 5, '六': 6, '七': 7, '八': 8, '九': 9,
+};
+
+/**
+ * Converts a small Chinese numeral ("十五", "二十", "三") into a number.
+ */
+function cnToNumber(cn: string): number {
+  if (cn.includes('十')) {
+    const [tens, ones] = cn.split('十');
+    return (tens ? CN_DIGITS[tens] ?? 0 : 1) * 10 + (ones ? CN_DIGITS[ones] ?? 0 : 0);
+  }
+  return cn.split('').reduce((acc, ch) => acc * 10 + (CN_DIGITS[ch] ?? 0), 0);
+}
+
+/**
+ * Rewrites Chinese numerals to ASCII digits so the patterns below only deal with \d.
+ */
+function normalize(text: string): string {
+  return text
+    .trim()
+    .replace(/[零〇一二两三四五六七八九十]+/g, (m) => String(cnToNumber(m)))
+    .replace(/：/g, ':');
+}
+
+const UNIT_MS: Record<string, number> = {
+  '秒': 1000, '秒钟': 1000,
+  '分': MINUTE, '分钟': MINUTE,
+  '小时': HOUR, '个小时': HOUR, '钟头': HOUR, '个钟头': HOUR,
+  '天': DAY,
+  'second': 1000, 'sec': 1000,
+  'minute': MINUTE, 'min': MINUTE,
+  'hour': HOUR, 'hr': HOUR,
+  'day': DAY,
+};
+
+function parseRelative(text: string): number | null {
+  if (/半(个)?(小时|钟头)(后|以后|之后)/.test(text) && !/\d+\s*个半/.test(text)) return 30 * MINUTE;
+
+  const halfHours = text.match(/(\d+)\s*个半(小时|钟头)(后|以后|之后)/);
+  if (halfHours) return (parseInt(halfHours[1]) + 0.5) * HOUR;
+
+  const cn = text.match(/(\d+(?:\.\d+)?)\s*(秒钟|秒|分钟|分|个小时|小时|个钟头|钟头|天)\s*(后|以后|之后)/);
+  if (cn) return parseFloat(cn[1]) * UNIT_MS[cn[2]];
+
+  const en = text.match(/in\s+(\d+(?:\.\d+)?)\s*(second|sec|minute|min|hour|hr|day)s?\b/i);
+  if (en) return parseFloat(en[1]) * UNIT_MS[en[2].toLowerCase()];
+
+  return null;
+}
+
+function parseAbsolute(text: string, now: Date): number | null {
+  let hour: number | null = null;
+  let minute = 0;
+
+  const clock = text.match(/(\d{1,2}):(\d{2})/);
+  // "一刻"/"三刻" have already been normalized to "1刻"/"3刻", so they must be tried before plain minutes.
+  const dot = text.match(/(\d{1,2})\s*点(?:(半)|(1刻)|(3刻)|\s*(\d{1,2})\s*分?)?/);
+  if (clock) {
+    hour = parseInt(clock[1]);
+    minute = parseInt(clock[2]);
+  } else if (dot) {
+    hour = parseInt(dot[1]);
+    if (dot[2]) minute = 30;
+    else if (dot[3]) minute = 15;
+    else if (dot[4]) minute = 45;
+    else if (dot[5]) minute = parseInt(dot[5]);
+  }
+
+  let dayOffset = 0;
+  if (/后天/.test(text)) dayOffset = 2;
+  else if (/明天|明早|明晚|明日/.test(text)) dayOffset = 1;
+  const hasDay = dayOffset > 0 || /今天|今晚|今早|今日/.test(text);
+
+  const isPm = /下午|傍晚|晚上|今晚|明晚|夜里|pm/i.test(text);
+  const isNoon = /中午/.test(text);
+  const isAm = /凌晨|早上|早晨|上午|今早|明早|am/i.test(text);
+
+  if (hour === null) {
+    // A bare day reference ("明天提醒我") defaults to 9 AM.
+    if (!hasDay) return null;
+    hour = 9;
+  }
+  if (hour > 24 || minute > 59) return null;
+
+  if (isPm && hour < 12) hour += 12;
+  if (isNoon && hour < 6) hour += 12;
+
+  const target = new Date(now);
+  target.setDate(target.getDate() + dayOffset);
+  target.setHours(hour, minute, 0, 0);
+
+  // Without an explicit day, an already-past time means the next occurrence.
+  if (!hasDay && target.getTime() <= now.getTime()) {
+    if (!isPm && !isAm && !isNoon && hour < 12) {
+      target.setHours(hour + 12);
+      if (target.getTime() > now.getTime()) return target.getTime();
+      target.setHours(hour);
+    }
+    target.setDate(target.getDate() + 1);
+  }
+  return target.getTime();
+}
+
+export type ReminderErrorCode = 'NOT_FOUND' | 'AMBIGUOUS_REMINDER';
+
+export type ReminderCancelResult =
+  | { reminder: ReminderItem }
+  | { error: { code: ReminderErrorCode; message: string; [detail: string]: unknown } };
+
+const persist = (reminders: ReminderItem[]) => {
+  localStorage.setItem(REMINDER_KEY, JSON.stringify(reminders));
+};
+
+export const ReminderService = {
+  /**
+   * Resolves a spoken time ("下午5点", "10分钟后", "明天早上8点半") to an epoch timestamp.
+   * Returns null when the phrase can't be understood.
+   */
+  parseTime: (text: string, now: Date = new Date()): number | null => {
+    const normalized = normalize(text);
+    const relative = parseRelative(normalized);
+    if (relative !== null) return now.getTime() + relative;
+    return parseAbsolute(normalized, now);
+  },
+
+  /**
+   * Loads all reminders from storage.
+   */
+  load: (): ReminderItem[] => {
+    try {
+      const stored = localStorage.getItem(REMINDER_KEY);
+      return stored ? JSON.parse(stored) : [];
+    } catch (e) {
+      console.error("无法加载提醒列表", e);
+      return [];
+    }
+  },
+
+  /**
+   * Reminders that have not yet fired, soonest first.
+   */
+  listPending: (): ReminderItem[] => {
+    return ReminderService.load()
+      .filter(r => r.status === 'pending')
+      .sort((a, b) => a.dueAt - b.dueAt);
+  },
+
+  /**
+   * Reminders to show: fired ones awaiting dismissal (most recent first), then pending ones.
+   * Fired reminders stay listed so they can still be snoozed.
+   */
+  listActive: (): ReminderItem[] => {
+    const reminders = ReminderService.load();
+    const fired = reminders.filter(r => r.status === 'fired').sort((a, b) => b.dueAt - a.dueAt);
+    return [...fired, ...ReminderService.listPending()];
+  },
+
+  /**
+   * Schedules a new reminder. Returns null if the time phrase can't be parsed.
+   */
+  add: (task: string, time: string): ReminderItem | null => {
+    const dueAt = ReminderService.parseTime(time);
+    if (dueAt === null) return null;
+
+    const item: ReminderItem = {
+      id: Math.random().toString(36).substr(2, 9),
+      task,
+      time,
+      dueAt,
+      createdAt: Date.now(),
+      status: 'pending',
+    };
+    persist([...ReminderService.load(), item]);
+    return item;
+  },
+
+  /**
+   * Pending reminders a spoken reference could mean: an exact id or task match if there is one,
+   * otherwise every task containing the text. Blank references match nothing.
+   */
+  match: (idOrTask: string): ReminderItem[] => {
+    const query = idOrTask.trim();
+    if (!query) return [];
+    const pending = ReminderService.listPending();
+    const exact = pending.filter(r => r.id === query || r.task === query);
+    if (exact.length > 0) return exact;
+    return pending.filter(r => r.task.includes(query));
+  },
+
+  /**
+   * Cancels the one pending reminder `idOrTask` refers to. A reference matching several
+   * reminders cancels none and lists them instead.
+   */
+  cancel: (idOrTask: string): ReminderCancelResult => {
+    const candidates = ReminderService.match(idOrTask);
+    if (candidates.length === 0) {
+      const message = idOrTask.trim() ? `未找到提醒: ${idOrTask}` : '请提供提醒的ID或内容';
+      return { error: { code: 'NOT_FOUND', message } };
+    }
+    if (candidates.length > 1) {
+      return { error: {
+        code: 'AMBIGUOUS_REMINDER',
+        message: `"${idOrTask}" 匹配到多个提醒，请说明具体是哪一个`,
+        candidates: candidates.map(r => ({ id: r.id, task: r.task })),
+      } };
+    }
+
+    const reminders = ReminderService.load();
+    const target = reminders.find(r => r.id === candidates[0].id)!;
+    target.status = 'cancelled';
+    persist(reminders);
+    return { reminder: target };
+  },
+
+  /**
+   * Pushes a reminder back by the given number of minutes, re-arming it if it already fired.
+   */
+  snooze: (id: string, minutes: number): ReminderItem | null => {
+    const reminders = ReminderService.load();
+    const target = reminders.find(r => r.id === id && (r.status === 'pending' || r.status === 'fired'));
+    if (!target) return null;
+
+    target.dueAt = Math.max(target.dueAt, Date.now()) + minutes * MINUTE;
+    target.status = 'pending';
+    persist(reminders);
+    return target;
+  },
+
+  /**
+   * Marks every pending reminder that is due as fired and returns them.
+   */
+  collectDue: (now: number = Date.now()): ReminderItem[] => {
+    const reminders = ReminderService.load();
+    const due = reminders.filter(r => r.status === 'pending' && r.dueAt <= now);
+    if (due.length === 0) return [];
+
+    due.forEach(r => { r.status = 'fired'; });
+    persist(reminders);
+    return due;
+  },
+
+  /**
+   * Acknowledges a fired reminder so it leaves the list.
+   */
+  dismiss: (id: string): ReminderItem | null => {
+    const reminders = ReminderService.load();
+    const target = reminders.find(r => r.id === id && r.status === 'fired');
+    if (!target) return null;
+
+    target.status = 'dismissed';
+    persist(reminders);
+    return target;
+  },
+
+  /**
+   * Drops dismissed and cancelled reminders from storage. Fired ones are kept until dismissed.
+   */
+  purgeInactive: () => {
+    persist(ReminderService.load().filter(r => r.status === 'pending' || r.status === 'fired'));
+  },
+};
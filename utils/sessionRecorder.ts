@@ -0,0 +1,102 @@
+import { encodeWav, resampleLinear } from './audioUtils';
+
+export type RecordingTrack = 'input' | 'output';
+export type RecordingLayout = 'stereo' | 'split';
+
+export const RECORDING_LAYOUT_LABELS: Record<RecordingLayout, string> = {
+  stereo: '立体声 (左: 麦克风, 右: Jarvis)',
+  split: '两个单声道文件',
+};
+
+export interface RecordingFile {
+  suffix: string; // Appended to the export file name
+  blob: Blob;
+}
+
+export interface SessionRecorder {
+  readonly startedAt: number;
+  /** Adds PCM that starts at `startMs` on the recorder's clock. */
+  add: (track: RecordingTrack, pcm: Int16Array, sampleRate: number, startMs: number) => void;
+  /** Drops audio on the track from `atMs` on, e.g. scheduled output cut off by an interruption. */
+  truncate: (track: RecordingTrack, atMs: number) => void;
+  durationMs: () => number;
+  isFull: (now?: number) => boolean;
+  export: (layout: RecordingLayout) => RecordingFile[];
+}
+
+interface Clip {
+  startMs: number;
+  pcm: Int16Array;
+  sampleRate: number;
+}
+
+// Both tracks are mixed down to the output rate; the mic's 16 kHz is upsampled
+const EXPORT_RATE = 24000;
+// Chunks arriving this close to where the previous one ended are treated as contiguous, hiding callback jitter
+const SNAP_MS = 80;
+// Keeps memory bounded: roughly 70 MB of PCM, plus the export buffers
+export const MAX_RECORDING_MS = 15 * 60 * 1000;
+
+const clipEnd = (clip: Clip) => clip.startMs + (clip.pcm.length / clip.sampleRate) * 1000;
+
+/**
+ * Records the mic and Jarvis on separate, time-aligned tracks. Positions come from the
+ * caller's clock (performance.now by default), so both tracks share one timeline.
+ */
+export function createSessionRecorder(now: () => number = () => performance.now()): SessionRecorder {
+  const startedAt = now();
+  const clips: Record<RecordingTrack, Clip[]> = { input: [], output: [] };
+  const ends: Record<RecordingTrack, number> = { input: startedAt, output: startedAt };
+
+  const durationMs = () => Math.max(ends.input, ends.output) - startedAt;
+
+  const mixTrack = (track: RecordingTrack, frameCount: number) => {
+    const out = new Float32Array(frameCount);
+    clips[track].forEach(clip => {
+      const floats = Float32Array.from(clip.pcm, s => s / 32768);
+      const samples = resampleLinear(floats, clip.sampleRate, EXPORT_RATE);
+      const offset = Math.round(((clip.startMs - startedAt) * EXPORT_RATE) / 1000);
+      for (let i = 0; i < samples.length && offset + i < frameCount; i++) {
+        if (offset + i >= 0) out[offset + i] += samples[i];
+      }
+    });
+    return out;
+  };
+
+  return {
+    startedAt,
+
+    add: (track, pcm, sampleRate, startMs) => {
+      const start = Math.abs(startMs - ends[track]) < SNAP_MS ? ends[track] : Math.max(startMs, startedAt);
+      // Copy: capture buffers can be views onto memory the worklet reuses
+      const clip = { startMs: start, pcm: pcm.slice(), sampleRate };
+      clips[track].push(clip);
+      ends[track] = Math.max(ends[track], clipEnd(clip));
+    },
+
+    truncate: (track, atMs) => {
+      clips[track] = clips[track].flatMap(clip => {
+        if (clip.startMs >= atMs) return [];
+        if (clipEnd(clip) <= atMs) return [clip];
+        const keep = Math.round(((atMs - clip.startMs) * clip.sampleRate) / 1000);
+        return [{ ...clip, pcm: clip.pcm.slice(0, keep) }];
+      });
+      ends[track] = clips[track].reduce((end, clip) => Math.max(end, clipEnd(clip)), startedAt);
+    },
+
+    durationMs,
+
+    isFull: (at = now()) => at - startedAt >= MAX_RECORDING_MS,
+
+    export: (layout) => {
+      const frameCount = Math.ceil((durationMs() * EXPORT_RATE) / 1000);
+      const input = mixTrack('input', frameCount);
+      const output = mixTrack('output', frameCount);
+      if (layout === 'stereo') return [{ suffix: '', blob: encodeWav([input, output], EXPORT_RATE) }];
+      return [
+        { suffix: '_mic', blob: encodeWav([input], EXPORT_RATE) },
+        { suffix: '_jarvis', blob: encodeWav([output], EXPORT_RATE) },
+      ];
+    },
+  };
+}
@@ -0,0 +1,59 @@
+import { SessionSettings } from '../types';
+
+const SETTINGS_KEY = 'jarvis_session_settings';
+
+export const MEMORY_PLACEHOLDER = '{memory}';
+
+export const MODEL_OPTIONS: Record<string, string> = {
+  'gemini-2.5-flash-native-audio-preview-09-2025': '2.5 Flash 原生音频',
+  'gemini-live-2.5-flash-preview': '2.5 Flash Live',
+  'gemini-2.0-flash-live-001': '2.0 Flash Live',
+};
+
+export const VOICE_OPTIONS = ['Puck', 'Charon', 'Kore', 'Fenrir', 'Aoede', 'Leda', 'Orus', 'Zephyr'];
+
+export const LANGUAGE_OPTIONS: Record<string, string> = {
+  'zh-CN': '中文',
+  'en-US': 'English',
+  'ja-JP': '日本語',
+  'ko-KR': '한국어',
+};
+
+export const DEFAULT_PERSONA = `你是JARVIS。全能AI管家。回答简练。识别画面中的物体时调用 reportDetections 报告边界框，无需在回答中念出坐标。\n记忆:${MEMORY_PLACEHOLDER}`;
+
+export const DEFAULT_SESSION_SETTINGS: SessionSettings = {
+  model: 'gemini-2.5-flash-native-audio-preview-09-2025',
+  voice: 'Puck',
+  language: 'zh-CN',
+  persona: DEFAULT_PERSONA,
+  echoCancellation: true,
+  noiseSuppression: true,
+  recordingLayout: 'stereo',
+};
+
+/**
+ * Fills the persona template. A template without the placeholder still gets the memories, appended at the end.
+ */
+export function buildSystemInstruction(settings: SessionSettings, memoryContext: string): string {
+  const persona = settings.persona.includes(MEMORY_PLACEHOLDER)
+    ? settings.persona.split(MEMORY_PLACEHOLDER).join(memoryContext)
+    : `${settings.persona}\n记忆:${memoryContext}`;
+  // Native audio models pick the spoken language from the conversation, so it's asked for in the prompt
+  const language = LANGUAGE_OPTIONS[settings.language] || settings.language;
+  return `${persona}\n始终用${language}回答。`;
+}
+
+export const SessionSettingsService = {
+  load: (): SessionSettings => {
+    try {
+      const stored = localStorage.getItem(SETTINGS_KEY);
+      return stored ? { ...DEFAULT_SESSION_SETTINGS, ...JSON.parse(stored) } : DEFAULT_SESSION_SETTINGS;
+    } catch (e) {
+      return DEFAULT_SESSION_SETTINGS;
+    }
+  },
+
+  save: (settings: SessionSettings) => {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  },
+};
@@ -0,0 +1,32 @@
+import { Snapshot } from '../types';
+import { SNAPSHOT_STORE, promisify, withStore } from './db';
+
+const withSnapshots = <T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => Promise<T>) =>
+  withStore(SNAPSHOT_STORE, mode, fn);
+
+export const SnapshotService = {
+  save: async (image: Blob, labels: string[], width: number, height: number): Promise<Snapshot> => {
+    const snapshot: Snapshot = {
+      id: Date.now().toString(36) + Math.random().toString(36).slice(2, 6),
+      createdAt: Date.now(),
+      labels,
+      width,
+      height,
+      image,
+    };
+    await withSnapshots('readwrite', store => promisify(store.put(snapshot)));
+    return snapshot;
+  },
+
+  /**
+   * All snapshots, newest first.
+   */
+  list: async (): Promise<Snapshot[]> => {
+    const snapshots = await withSnapshots('readonly', store => promisify<Snapshot[]>(store.index('createdAt').getAll()));
+    return snapshots.reverse();
+  },
+
+  remove: (id: string): Promise<void> => {
+    return withSnapshots('readwrite', store => promisify(store.delete(id)).then(() => {}));
+  },
+};
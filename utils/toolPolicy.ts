@@ -0,0 +1,76 @@
+import { ConfirmationOutcome } from '../types';
+import { ToolArgs, ToolError } from './toolRegistry';
+import { DeviceRegistry, requiresConfirmation } from './deviceRegistry';
+
+export interface SensitiveRule {
+  tool: string;
+  /** Shown to the user in the confirmation prompt and kept in the audit log. */
+  reason: string;
+  /** Narrows the rule to specific arguments; without it every call to the tool is sensitive. */
+  matches?: (args: ToolArgs) => boolean;
+  /**
+   * Whether a spoken "确认" may approve. Physical-security actions need a click on the dialog:
+   * speech can be misheard, or be Jarvis's own prompt coming back through the mic.
+   */
+  voiceApproval: boolean;
+}
+
+// Every device the name could refer to is checked, so an ambiguous name can't slip past
+const touchesGuardedDevice = ({ device, action }: ToolArgs) =>
+  DeviceRegistry.match(String(device)).some(d => requiresConfirmation(d, String(action)));
+
+export const SENSITIVE_RULES: SensitiveRule[] = [
+  {
+    tool: 'toggleSmartHome',
+    reason: '操作门锁、安防或敏感设备',
+    matches: touchesGuardedDevice,
+    voiceApproval: false,
+  },
+  { tool: 'forgetMemory', reason: '删除长期记忆', voiceApproval: true },
+];
+
+/**
+ * The first rule that marks this call as needing the user's confirmation, if any.
+ */
+export function findSensitiveRule(name: string, args: ToolArgs, rules: SensitiveRule[] = SENSITIVE_RULES): SensitiveRule | undefined {
+  return rules.find(rule => rule.tool === name && (!rule.matches || rule.matches(args)));
+}
+
+// An approval has to be the whole utterance, so "我不确定" or "请您确认" never count
+const SPOKEN_APPROVE = new Set(['确认', '确定', '同意', '批准', '确认执行', 'confirm', 'approve', 'yes']);
+const SPOKEN_DENY = /取消|拒绝|算了|deny|cancel/i;
+// Any negation anywhere turns the answer into a refusal
+const SPOKEN_NEGATION = /不|别|没|否|no|not|don'?t/i;
+
+const normalizeUtterance = (text: string) => text.toLowerCase().replace(/[\s\p{P}]/gu, '');
+
+/**
+ * Reads one finished utterance spoken in answer to a confirmation prompt.
+ * Refusals and negations win; approval needs the utterance to be exactly an approval phrase.
+ */
+export function parseSpokenConfirmation(utterance: string): boolean | null {
+  if (SPOKEN_DENY.test(utterance) || SPOKEN_NEGATION.test(utterance)) return false;
+  if (SPOKEN_APPROVE.has(normalizeUtterance(utterance))) return true;
+  return null;
+}
+
+export const CONFIRMATION_OUTCOME_LABELS: Record<ConfirmationOutcome, string> = {
+  approved: '已批准',
+  denied: '已拒绝',
+  timeout: '确认超时',
+  cancelled: '已取消',
+};
+
+/**
+ * What the model is told when a sensitive call doesn't go ahead, so it can explain rather than retry.
+ */
+export function refusalFor(outcome: Exclude<ConfirmationOutcome, 'approved'>, reason: string): ToolError {
+  switch (outcome) {
+    case 'denied':
+      return { code: 'USER_DENIED', message: `用户拒绝了该操作: ${reason}` };
+    case 'timeout':
+      return { code: 'CONFIRMATION_TIMEOUT', message: `用户未及时确认，操作未执行: ${reason}` };
+    case 'cancelled':
+      return { code: 'CANCELLED', message: `会话已结束，操作未执行: ${reason}` };
+  }
+}
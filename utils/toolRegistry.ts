@@ -0,0 +1,220 @@
+import { FunctionDeclaration, Schema, Type } from '@google/genai';
+
+export type ToolArgs = Record<string, unknown>;
+export type ToolResult = Record<string, unknown>;
+
+export type ToolErrorCode = 'UNKNOWN_TOOL' | 'INVALID_ARGUMENTS' | 'TIMEOUT' | 'HANDLER_ERROR' | string;
+
+export interface ToolError {
+  code: ToolErrorCode;
+  message: string;
+  [detail: string]: unknown;
+}
+
+/**
+ * The value a schema describes: what an argument looks like once `validateSchema` has accepted it.
+ * Schemas without literal types (a plain `Schema`) describe `unknown`.
+ */
+export type SchemaValue<S> =
+  S extends { type: Type.STRING; enum: readonly (infer E)[] } ? E :
+  S extends { type: Type.STRING } ? string :
+  S extends { type: Type.NUMBER | Type.INTEGER } ? number :
+  S extends { type: Type.BOOLEAN } ? boolean :
+  S extends { type: Type.ARRAY; items: infer I } ? SchemaValue<I>[] :
+  S extends { type: Type.OBJECT; properties: infer P } ? ObjectValue<P, S extends { required: readonly (infer R)[] } ? R : never> :
+  unknown;
+
+type ObjectValue<P, R> = { [K in keyof P as K extends R ? K : never]: SchemaValue<P[K]> }
+  & { [K in keyof P as K extends R ? never : K]?: SchemaValue<P[K]> };
+
+/**
+ * Arguments a declaration's handler receives, derived from its parameter schema.
+ */
+export type ArgsOf<D extends FunctionDeclaration> =
+  SchemaValue<D['parameters']> extends infer V ? (unknown extends V ? ToolArgs : V) : never;
+
+/**
+ * A tool and its handler. The handler's arguments are typed from the declaration's schema,
+ * so a handler reading a parameter the schema doesn't declare fails to compile.
+ */
+export interface ToolDefinition<D extends FunctionDeclaration = FunctionDeclaration> {
+  declaration: D;
+  /** `signal` aborts when the call times out; handlers with side effects must pass it on. */
+  handler: (args: ArgsOf<D>, signal: AbortSignal) => ToolResult | Promise<ToolResult>;
+  /** Abandon the call, abort its signal and report TIMEOUT after this long. */
+  timeoutMs?: number;
+  /** Turns an exception from the handler into the error the model sees. */
+  mapError?: (error: unknown) => ToolError;
+}
+
+/**
+ * A tool as the registry holds it. Its argument type stays inside `bind`, which only hands out
+ * the handler once the arguments have passed the schema.
+ */
+export interface Tool {
+  declaration: FunctionDeclaration;
+  timeoutMs?: number;
+  mapError?: (error: unknown) => ToolError;
+  bind: (args: ToolArgs) => { problems: string[] } | { run: (signal: AbortSignal) => ToolResult | Promise<ToolResult> };
+}
+
+/**
+ * Decides whether a validated call may run. Resolves to null to allow it, or to the error the model gets instead.
+ */
+export type ToolAuthorizer = (name: string, args: ToolArgs) => Promise<ToolError | null>;
+
+export interface ExecuteHooks {
+  /** Called once the authorizer has answered, with how long it took; lets callers keep user wait out of timings. */
+  onAuthorized?: (waitMs: number) => void;
+}
+
+export interface ToolRegistry {
+  /** Registers a tool, replacing any with the same name. Returns a function that unregisters it. */
+  register: (tool: Tool) => () => void;
+  unregister: (name: string) => void;
+  has: (name: string) => boolean;
+  /** Declarations for the session config; tools added mid-session only reach the model on the next connect. */
+  declarations: () => FunctionDeclaration[];
+  /** Consulted before every handler runs; time spent waiting on it doesn't count toward the timeout. */
+  setAuthorizer: (authorizer: ToolAuthorizer | null) => void;
+  /** Validates and dispatches a call. Never throws: failures come back as `{ error: ToolError }`. */
+  execute: (name: string, args: ToolArgs | undefined, hooks?: ExecuteHooks) => Promise<ToolResult>;
+}
+
+const DEFAULT_TIMEOUT_MS = 10000;
+
+/**
+ * Builds the `{ error }` result handlers return for expected failures, like an unknown reminder.
+ */
+export const toolError = (code: ToolErrorCode, message: string, details: Record<string, unknown> = {}): ToolResult =>
+  ({ error: { code, message, ...details } });
+
+/**
+ * Packages a tool for the registry, binding its handler to schema-checked arguments.
+ */
+export function defineTool<const D extends FunctionDeclaration>({ declaration, handler, timeoutMs, mapError }: ToolDefinition<D>): Tool {
+  return {
+    declaration,
+    timeoutMs,
+    mapError,
+    bind: (args) => matchesSchema(declaration, args)
+      ? { run: signal => handler(args, signal) }
+      : { problems: validateSchema(declaration.parameters, args) },
+  };
+}
+
+const describeError = (error: unknown) => error instanceof Error ? error.message : String(error);
+
+const defaultMapError = (error: unknown): ToolError => ({ code: 'HANDLER_ERROR', message: describeError(error) });
+
+/**
+ * Checks a value against the subset of the OpenAPI schema the Live API declarations use.
+ * Returns one message per problem, prefixed with the offending path.
+ */
+export function validateSchema(schema: Schema | undefined, value: unknown, path = 'args'): string[] {
+  if (!schema) return [];
+  if (value === undefined || value === null) return schema.nullable ? [] : [`${path}: 缺少值`];
+
+  switch (schema.type) {
+    case Type.STRING:
+      if (typeof value !== 'string') return [`${path}: 应为字符串`];
+      if (schema.enum && !schema.enum.includes(value)) return [`${path}: 应为 ${schema.enum.join(' / ')} 之一`];
+      return [];
+    case Type.NUMBER:
+      return typeof value === 'number' && Number.isFinite(value) ? [] : [`${path}: 应为数字`];
+    case Type.INTEGER:
+      return Number.isInteger(value) ? [] : [`${path}: 应为整数`];
+    case Type.BOOLEAN:
+      return typeof value === 'boolean' ? [] : [`${path}: 应为布尔值`];
+    case Type.ARRAY:
+      if (!Array.isArray(value)) return [`${path}: 应为数组`];
+      return value.flatMap((item, i) => validateSchema(schema.items, item, `${path}[${i}]`));
+    case Type.OBJECT: {
+      if (typeof value !== 'object' || Array.isArray(value)) return [`${path}: 应为对象`];
+      const obj = value as Record<string, unknown>;
+      const missing = (schema.required || []).filter(key => obj[key] === undefined).map(key => `${path}.${key}: 缺少必填参数`);
+      // Extra properties are ignored rather than rejected; the model sometimes adds harmless ones
+      const invalid = Object.entries(schema.properties || {})
+        .filter(([key]) => obj[key] !== undefined)
+        .flatMap(([key, prop]) => validateSchema(prop, obj[key], `${path}.${key}`));
+      return [...missing, ...invalid];
+    }
+    default:
+      return [];
+  }
+}
+
+// validateSchema accepts exactly the values SchemaValue describes, so passing it types the arguments
+const matchesSchema = <D extends FunctionDeclaration>(declaration: D, args: unknown): args is ArgsOf<D> =>
+  validateSchema(declaration.parameters, args).length === 0;
+
+class ToolTimeoutError extends Error {
+  constructor(readonly ms: number) {
+    super(`执行超时 (${ms} ms)`);
+  }
+}
+
+// Aborts the handler's signal as well as rejecting, so a late handler can't still act
+const withTimeout = <T>(run: (signal: AbortSignal) => Promise<T>, ms: number) => new Promise<T>((resolve, reject) => {
+  const controller = new AbortController();
+  const timer = setTimeout(() => {
+    const error = new ToolTimeoutError(ms);
+    controller.abort(error);
+    reject(error);
+  }, ms);
+  run(controller.signal).then(
+    value => { clearTimeout(timer); resolve(value); },
+    error => { clearTimeout(timer); reject(error); }
+  );
+});
+
+export function createToolRegistry(): ToolRegistry {
+  const tools = new Map<string, Tool>();
+  let authorizer: ToolAuthorizer | null = null;
+
+  return {
+    register: (tool) => {
+      const name = tool.declaration.name;
+      if (!name) throw new Error('工具声明缺少名称');
+      tools.set(name, tool);
+      return () => {
+        // Only remove this registration, not a later replacement
+        if (tools.get(name) === tool) tools.delete(name);
+      };
+    },
+
+    unregister: (name) => {
+      tools.delete(name);
+    },
+
+    has: (name) => tools.has(name),
+
+    declarations: () => Array.from(tools.values()).map(t => t.declaration),
+
+    setAuthorizer: (next) => {
+      authorizer = next;
+    },
+
+    execute: async (name, args = {}, hooks = {}) => {
+      const tool = tools.get(name);
+      if (!tool) {
+        return toolError('UNKNOWN_TOOL', `未知工具: ${name}`, { available: Array.from(tools.keys()) });
+      }
+
+      const bound = tool.bind(args);
+      if ('problems' in bound) return toolError('INVALID_ARGUMENTS', '参数校验失败', { problems: bound.problems });
+
+      const askedAt = performance.now();
+      const refusal = authorizer ? await authorizer(name, args) : null;
+      hooks.onAuthorized?.(performance.now() - askedAt);
+      if (refusal) return { error: refusal };
+
+      try {
+        return await withTimeout(async signal => bound.run(signal), tool.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+      } catch (e) {
+        if (e instanceof ToolTimeoutError) return toolError('TIMEOUT', e.message);
+        return { error: (tool.mapError || defaultMapError)(e) };
+      }
+    },
+  };
+}
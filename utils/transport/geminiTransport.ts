@@ -0,0 +1,18 @@
+import { GoogleGenAI } from '@google/genai';
+import type { LiveTransport } from './index';
+
+/**
+ * The real Live API. Each connect, reconnects included, opens with a fresh single-use token,
+ * so the API key itself never reaches the browser. The SDK session already satisfies `LiveLink`.
+ */
+export function createGeminiTransport(getToken: () => Promise<string>): LiveTransport {
+  return {
+    name: 'gemini',
+    connect: async ({ model, config, callbacks }) => {
+      const token = await getToken();
+      // Ephemeral tokens are only accepted on v1alpha
+      const ai = new GoogleGenAI({ apiKey: token, httpOptions: { apiVersion: 'v1alpha' } });
+      return ai.live.connect({ model, config, callbacks });
+    },
+  };
+}
@@ -0,0 +1,55 @@
+import type {
+  LiveConnectConfig,
+  LiveServerMessage,
+  LiveSendClientContentParameters,
+  LiveSendRealtimeInputParameters,
+  LiveSendToolResponseParameters,
+} from '@google/genai';
+import { createGeminiTransport } from './geminiTransport';
+import { createMockTransport } from './mockTransport';
+import { MOCK_SCRIPTS } from './mockScripts';
+import { fetchEphemeralToken } from './tokenClient';
+
+export interface LiveTransportCallbacks {
+  onopen?: () => void;
+  onmessage: (msg: LiveServerMessage) => void;
+  onerror?: (e: ErrorEvent) => void;
+  onclose?: (e: CloseEvent) => void;
+}
+
+/**
+ * One open link to a Live server. Mirrors the subset of the SDK's `Session` the app uses.
+ */
+export interface LiveLink {
+  sendRealtimeInput: (params: LiveSendRealtimeInputParameters) => void;
+  sendClientContent: (params: LiveSendClientContentParameters) => void;
+  sendToolResponse: (params: LiveSendToolResponseParameters) => void;
+  close: () => void;
+}
+
+/**
+ * Opens links to a Live server. The session logic in App only talks to this, so it can run
+ * against the real API or a scripted mock.
+ */
+export interface LiveTransport {
+  readonly name: string;
+  connect: (params: { model: string; config: LiveConnectConfig; callbacks: LiveTransportCallbacks }) => Promise<LiveLink>;
+}
+
+// `?mock=<script>` in the page URL runs the app against a scripted local server
+const MOCK_PARAM = 'mock';
+
+/**
+ * Picks the transport for this page load. Returns an error message instead when nothing usable is configured.
+ */
+export function createTransport(): LiveTransport | string {
+  const mock = new URLSearchParams(window.location.search).get(MOCK_PARAM);
+  if (mock !== null) {
+    const script = MOCK_SCRIPTS[mock || 'demo'];
+    if (!script) return `未知的模拟脚本: ${mock}（可用: ${Object.keys(MOCK_SCRIPTS).join(', ')}）`;
+    return createMockTransport(script);
+  }
+  if (!process.env.TOKEN_SERVER_URL) return "未配置令牌服务器地址 (TOKEN_SERVER_URL)";
+  const tokenServerUrl = process.env.TOKEN_SERVER_URL;
+  return createGeminiTransport(() => fetchEphemeralToken(tokenServerUrl));
+}
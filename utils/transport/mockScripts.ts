@@ -0,0 +1,180 @@
+import { encode } from '../audioUtils';
+import type { MockScript, MockStep } from './mockTransport';
+
+// Matches the output rate the app plays Live audio at
+const MOCK_AUDIO_RATE = 24000;
+const CHUNK_MS = 200;
+
+/**
+ * A base64 PCM16 sine chunk, standing in for synthesized speech.
+ */
+function toneChunk(frequency: number, ms = CHUNK_MS): string {
+  const samples = Math.round((MOCK_AUDIO_RATE * ms) / 1000);
+  const pcm = new Int16Array(samples);
+  for (let i = 0; i < samples; i++) {
+    // Short fade at both ends so chunk boundaries don't click
+    const fade = Math.min(1, i / 240, (samples - i) / 240);
+    pcm[i] = Math.sin((2 * Math.PI * frequency * i) / MOCK_AUDIO_RATE) * 0.2 * fade * 0x7fff;
+  }
+  return encode(new Uint8Array(pcm.buffer));
+}
+
+const setup = (): MockStep => ({ message: { setupComplete: {} }, delayMs: 100 });
+
+const resumption = (handle: string): MockStep => ({ message: { sessionResumptionUpdate: { newHandle: handle, resumable: true } } });
+
+const userSays = (text: string): MockStep[] => [
+  { message: { serverContent: { inputTranscription: { text } } } },
+  { message: { serverContent: { inputTranscription: { text: '', finished: true } } }, delayMs: 100 },
+];
+
+/**
+ * Jarvis speaking: transcription streamed alongside one audio chunk per phrase.
+ */
+const jarvisSays = (...phrases: string[]): MockStep[] => phrases.flatMap((text, i) => [
+  { message: { serverContent: { outputTranscription: { text } } }, delayMs: 150 },
+  {
+    message: { serverContent: { modelTurn: { parts: [{ inlineData: { data: toneChunk(440 + i * 40), mimeType: `audio/pcm;rate=${MOCK_AUDIO_RATE}` } }] } } },
+    delayMs: 50,
+  },
+]);
+
+const turnComplete = (): MockStep => ({ message: { serverContent: { turnComplete: true } } });
+
+let callId = 0;
+// `meanwhile` plays while the call is outstanding, e.g. the user answering a confirmation prompt
+const toolCall = (name: string, args: Record<string, unknown>, meanwhile: MockStep[] = []): MockStep[] => [
+  { message: { toolCall: { functionCalls: [{ id: `mock-call-${++callId}`, name, args }] } } },
+  ...meanwhile,
+  { waitFor: 'toolResponse' },
+];
+
+export const MOCK_SCRIPTS: Record<string, MockScript> = {
+  demo: {
+    description: '一轮问候对话',
+    connections: [{
+      steps: [
+        setup(),
+        resumption('mock-demo-1'),
+        ...userSays('你好贾维斯'),
+        ...jarvisSays('您好，', '系统已就绪，', '有什么可以帮您？'),
+        turnComplete(),
+      ],
+    }],
+  },
+
+  tools: {
+    description: '提醒、设备、记忆与物体识别工具调用',
+    connections: [{
+      steps: [
+        setup(),
+        ...userSays('十分钟后提醒我喝水，然后把客厅灯打开'),
+        ...toolCall('setReminder', { task: '喝水', time: '10分钟后' }),
+        ...toolCall('toggleSmartHome', { device: '客厅灯', action: 'on' }),
+        ...toolCall('toggleSmartHome', { device: '车库门', action: 'open' }),
+        ...jarvisSays('已设好提醒，', '客厅灯已打开。'),
+        turnComplete(),
+        ...userSays('记住我喜欢喝美式咖啡'),
+        ...toolCall('saveToLongTermMemory', { key: '咖啡偏好', value: '美式咖啡', category: '偏好', confidence: 0.9 }),
+        ...jarvisSays('已记住。'),
+        turnComplete(),
+        ...userSays('看看桌上有什么'),
+        ...toolCall('reportDetections', {
+          detections: [
+            { label: '杯子', box: [40, 20, 70, 35], confidence: 0.92 },
+            { label: '键盘', box: [60, 40, 85, 90], confidence: 0.81 },
+          ],
+        }),
+        // Same objects slightly moved: tracks should keep their IDs and glide
+        ...toolCall('reportDetections', {
+          detections: [
+            { label: '杯子', box: [42, 24, 72, 39], confidence: 0.9 },
+            { label: '键盘', box: [61, 41, 86, 91], confidence: 0.83 },
+            { label: '手机', box: [20, 70, 40, 82], confidence: 0.6 },
+            { label: '坏数据', box: [10, 10, 5, 5] },
+          ],
+        }),
+        ...jarvisSays('桌上有一个杯子、', '一个键盘和一部手机。'),
+        turnComplete(),
+      ],
+    }],
+  },
+
+  confirm: {
+    description: '敏感操作确认：删除记忆可语音批准，解锁前门只能在弹窗中批准',
+    connections: [{
+      steps: [
+        setup(),
+        ...userSays('忘掉我的咖啡偏好'),
+        ...toolCall('forgetMemory', { key: '咖啡偏好' }, [
+          ...jarvisSays('删除记忆需要您确认。'),
+          { delayMs: 1500, message: { serverContent: { inputTranscription: { text: '确认' } } } },
+          { message: { serverContent: { inputTranscription: { text: '', finished: true } } }, delayMs: 100 },
+        ]),
+        ...jarvisSays('已删除。'),
+        turnComplete(),
+        ...userSays('把前门打开'),
+        // Spoken approval is ignored for the door; the dialog decides
+        ...toolCall('toggleSmartHome', { device: '前门', action: '解锁' }, [
+          ...jarvisSays('解锁前门需要您在屏幕上确认。'),
+          { delayMs: 1500, message: { serverContent: { inputTranscription: { text: '确认' } } } },
+          { message: { serverContent: { inputTranscription: { text: '', finished: true } } }, delayMs: 100 },
+        ]),
+        ...jarvisSays('已处理。'),
+        turnComplete(),
+      ],
+    }],
+  },
+
+  reconnect: {
+    description: '掉线、连接失败、续接会话与 goAway 切换',
+    connections: [
+      {
+        steps: [
+          setup(),
+          resumption('mock-resume-1'),
+          ...jarvisSays('连接已建立，', '三秒后模拟掉线。'),
+          turnComplete(),
+          { close: { code: 1011, reason: 'mock: internal error' }, delayMs: 3000 },
+        ],
+      },
+      { reject: 'mock: network unreachable', steps: [] },
+      {
+        steps: [
+          setup(),
+          resumption('mock-resume-2'),
+          ...jarvisSays('会话已续接。', '五秒后服务器将发出 goAway。'),
+          turnComplete(),
+          { message: { goAway: { timeLeft: '10s' } }, delayMs: 5000 },
+        ],
+      },
+      {
+        steps: [
+          setup(),
+          ...jarvisSays('已切换到新链路。'),
+          turnComplete(),
+        ],
+      },
+    ],
+  },
+
+  interrupt: {
+    description: '长回答被用户打断',
+    connections: [{
+      steps: [
+        setup(),
+        ...userSays('介绍一下你自己'),
+        ...jarvisSays('我是贾维斯，', '一个全能的人工智能管家，', '我可以管理您的日程、', '控制家中设备、'),
+        ...userSays('停一下'),
+        { message: { serverContent: { interrupted: true } }, delayMs: 50 },
+        ...jarvisSays('好的，', '我在听。'),
+        turnComplete(),
+      ],
+    }],
+  },
+
+  fail: {
+    description: '始终无法连接，用于检验重试上限与手动重试',
+    connections: [{ reject: 'mock: connection refused', steps: [] }],
+  },
+};
@@ -0,0 +1,137 @@
+import type { LiveServerMessage, LiveSendRealtimeInputParameters } from '@google/genai';
+import type { LiveLink, LiveTransport } from './index';
+
+export type ClientEventKind = 'audio' | 'video' | 'clientContent' | 'toolResponse';
+
+/**
+ * One scripted server action. Each runs `delayMs` after the previous one finishes.
+ */
+export type MockStep = { delayMs?: number } & (
+  | { message: Partial<LiveServerMessage> }     // Deliver a server message
+  | { waitFor: ClientEventKind }                // Pause until the client sends this
+  | { close: { code: number; reason?: string } }
+  | { error: string }
+);
+
+export interface MockConnection {
+  reject?: string; // Fail the connect call itself, e.g. to simulate the network being down
+  steps: MockStep[];
+}
+
+export interface MockScript {
+  description: string;
+  /** Replayed in order, one per connect call; the last one repeats for any further reconnects. */
+  connections: MockConnection[];
+}
+
+export interface ClientEvent {
+  kind: ClientEventKind;
+  connection: number;
+  at: number;
+  payload: unknown;
+}
+
+export interface MockTransport extends LiveTransport {
+  /** Everything the client sent, for inspection from the console or a test harness. */
+  readonly sent: ClientEvent[];
+  /** The resumption handle passed to each connect call. */
+  readonly resumeHandles: (string | undefined)[];
+}
+
+const DEFAULT_STEP_DELAY_MS = 300;
+const CONNECT_LATENCY_MS = 80;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const realtimeKind = (params: LiveSendRealtimeInputParameters): ClientEventKind => {
+  const media = params.media as { mimeType?: string } | undefined;
+  return media?.mimeType?.startsWith('image/') ? 'video' : 'audio';
+};
+
+/**
+ * Scripted stand-in for the Live API. Replays recorded server messages, closes and errors,
+ * and can hold the script until the client responds, so reconnect, tool and AR handling
+ * run end to end without a network or an API key.
+ */
+export function createMockTransport(script: MockScript): MockTransport {
+  const sent: ClientEvent[] = [];
+  const resumeHandles: (string | undefined)[] = [];
+  let connectCount = 0;
+
+  return {
+    name: 'mock',
+    sent,
+    resumeHandles,
+
+    connect: async ({ config, callbacks }) => {
+      const index = connectCount++;
+      resumeHandles.push(config.sessionResumption?.handle);
+      const connection = script.connections[Math.min(index, script.connections.length - 1)];
+
+      await sleep(CONNECT_LATENCY_MS);
+      if (connection.reject) throw new Error(connection.reject);
+
+      let closed = false;
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      let waiting: { kind: ClientEventKind; resume: () => void } | null = null;
+      // Kinds sent since the last wait was satisfied; a reply can beat the script to its waitFor step
+      const seen = new Set<ClientEventKind>();
+
+      const finish = (code: number, reason: string) => {
+        if (closed) return;
+        closed = true;
+        clearTimeout(timer);
+        callbacks.onclose?.({ code, reason, wasClean: code === 1000 } as CloseEvent);
+      };
+
+      const run = (i: number) => {
+        if (closed || i >= connection.steps.length) return;
+        const step = connection.steps[i];
+        timer = setTimeout(() => {
+          if (closed) return;
+          if ('waitFor' in step) {
+            if (seen.has(step.waitFor)) {
+              seen.clear();
+              run(i + 1);
+            } else {
+              waiting = { kind: step.waitFor, resume: () => run(i + 1) };
+            }
+            return;
+          }
+          if ('close' in step) {
+            finish(step.close.code, step.close.reason || '');
+            return;
+          }
+          if ('error' in step) callbacks.onerror?.({ message: step.error } as ErrorEvent);
+          else callbacks.onmessage(step.message as LiveServerMessage);
+          run(i + 1);
+        }, step.delayMs ?? DEFAULT_STEP_DELAY_MS);
+      };
+
+      const record = (kind: ClientEventKind, payload: unknown) => {
+        if (closed) return;
+        sent.push({ kind, connection: index, at: Date.now(), payload });
+        if (waiting?.kind !== kind) {
+          seen.add(kind);
+          return;
+        }
+        const { resume } = waiting;
+        waiting = null;
+        seen.clear();
+        resume();
+      };
+
+      const link: LiveLink = {
+        sendRealtimeInput: (params) => record(realtimeKind(params), params),
+        sendClientContent: (params) => record('clientContent', params),
+        sendToolResponse: (params) => record('toolResponse', params),
+        close: () => finish(1000, 'client closed'),
+      };
+
+      // Like the SDK: the socket opens before connect resolves, and the script starts after
+      callbacks.onopen?.();
+      setTimeout(() => run(0), 0);
+      return link;
+    },
+  };
+}
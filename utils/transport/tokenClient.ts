@@ -0,0 +1,28 @@
+const REQUEST_TIMEOUT_MS = 8000;
+
+/**
+ * Asks the companion token server for a single-use Live API token.
+ * Throws with a message meant for the system log when the server is down, slow, or refuses.
+ */
+export async function fetchEphemeralToken(serverUrl: string): Promise<string> {
+  let res: Response;
+  try {
+    res = await fetch(serverUrl, {
+      method: 'POST',
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+  } catch (e) {
+    if (e instanceof DOMException && e.name === 'TimeoutError') {
+      throw new Error(`令牌服务器无响应 (${serverUrl})`);
+    }
+    throw new Error(`无法连接令牌服务器 (${serverUrl})，请确认已运行 npm run token-server`);
+  }
+
+  const body = await res.json().catch(() => null);
+  if (!res.ok) {
+    const message = body?.error?.message || `HTTP ${res.status}`;
+    throw new Error(`令牌获取失败: ${message}`);
+  }
+  if (typeof body?.token !== 'string') throw new Error('令牌服务器返回了无效响应');
+  return body.token;
+}
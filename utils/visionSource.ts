@@ -0,0 +1,73 @@
+import { VisionSource } from '../types';
+
+export const VISION_SOURCE_LABELS: Record<VisionSource, string> = {
+  camera: '摄像头',
+  screen: '屏幕',
+  pip: '画中画',
+};
+
+// Screen content changes slowly; a low capture rate keeps the browser's encoder idle
+const SCREEN_FRAME_RATE = 5;
+// Camera inset size relative to the frame width in picture-in-picture mode
+const PIP_SCALE = 0.25;
+const PIP_MARGIN = 0.02;
+// Shared images are often text-heavy screenshots, so they get more pixels than streamed frames
+const SHARED_IMAGE_MAX_DIMENSION = 1536;
+const SHARED_IMAGE_QUALITY = 0.85;
+
+const IMAGE_TYPES = /^image\/(png|jpe?g|webp|gif|bmp)$/;
+
+export const supportsScreenShare = () => !!navigator.mediaDevices?.getDisplayMedia;
+
+/**
+ * Asks the user to pick a screen, window or tab to share. Rejects if they cancel the picker.
+ */
+export function startScreenShare(): Promise<MediaStream> {
+  return navigator.mediaDevices.getDisplayMedia({
+    video: { frameRate: { ideal: SCREEN_FRAME_RATE } },
+    audio: false,
+  });
+}
+
+/**
+ * Draws the outgoing frame: the main source, plus the camera as an inset in picture-in-picture mode.
+ */
+export function drawVisionFrame(ctx: CanvasRenderingContext2D, main: HTMLVideoElement, inset: HTMLVideoElement | null, width: number, height: number) {
+  ctx.drawImage(main, 0, 0, width, height);
+  if (!inset?.videoWidth) return;
+  const w = width * PIP_SCALE;
+  const h = w * (inset.videoHeight / inset.videoWidth);
+  const margin = width * PIP_MARGIN;
+  const x = width - w - margin;
+  const y = height - h - margin;
+  ctx.drawImage(inset, x, y, w, h);
+  ctx.strokeStyle = '#22d3ee';
+  ctx.lineWidth = 2;
+  ctx.strokeRect(x, y, w, h);
+}
+
+export const isSupportedImage = (file: File) => IMAGE_TYPES.test(file.type);
+
+/**
+ * Decodes a dropped or pasted image and re-encodes it as a size-capped JPEG.
+ */
+export async function encodeImageFile(file: File): Promise<{ blob: Blob; width: number; height: number }> {
+  const bitmap = await createImageBitmap(file);
+  try {
+    const scale = Math.min(1, SHARED_IMAGE_MAX_DIMENSION / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(bitmap.width * scale);
+    canvas.height = Math.round(bitmap.height * scale);
+    const ctx = canvas.getContext('2d')!;
+    // Transparent screenshots would otherwise turn black
+    ctx.fillStyle = '#fff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    const blob = await new Promise<Blob>((resolve, reject) => {
+      canvas.toBlob(b => b ? resolve(b) : reject(new Error("图像编码失败")), 'image/jpeg', SHARED_IMAGE_QUALITY);
+    });
+    return { blob, width: canvas.width, height: canvas.height };
+  } finally {
+    bitmap.close();
+  }
+}
@@ -0,0 +1,96 @@
+export interface WakeWordListener {
+  stop: () => void;
+}
+
+/**
+ * Where the browser's recognizer runs. Chrome's default recognizer streams the mic to a cloud
+ * service, so only 'local' keeps audio on the device.
+ */
+export type WakeWordBackend = 'local' | 'cloud';
+
+export const WAKE_BACKEND_LABELS: Record<WakeWordBackend, string> = {
+  local: '本地识别',
+  cloud: '云端识别',
+};
+
+/**
+ * Strips whitespace and punctuation so "Hey, Jarvis!" and "heyjarvis" compare equal.
+ */
+const normalize = (text: string) => text.toLowerCase().replace(/[\s\p{P}]/gu, '');
+
+/**
+ * Whether a phrase has anything left to listen for once normalized. A blank phrase would match all speech.
+ */
+export const isValidWakePhrase = (phrase: string) => normalize(phrase).length > 0;
+
+const getRecognition = () => (window as any).SpeechRecognition || (window as any).webkitSpeechRecognition;
+
+/**
+ * Which backend wake-word spotting would use, or null if the browser has no speech recognizer.
+ * On-device recognition is only reported when the language pack is already installed.
+ */
+export async function detectWakeWordBackend(lang = 'zh-CN'): Promise<WakeWordBackend | null> {
+  const Recognition = getRecognition();
+  if (!Recognition) return null;
+  if (typeof Recognition.available !== 'function') return 'cloud';
+  try {
+    return (await Recognition.available({ langs: [lang], processLocally: true })) === 'available' ? 'local' : 'cloud';
+  } catch (_) {
+    return 'cloud';
+  }
+}
+
+/**
+ * Listens continuously for `phrase` using the browser's speech recognizer and calls
+ * `onDetected` each time it is heard. Recognition restarts itself when the browser ends it.
+ * Returns null if the browser has no speech recognizer.
+ *
+ * With the 'cloud' backend every mic buffer leaves the device while listening, so callers
+ * must only pick it with the user's explicit consent. Throws on a blank phrase.
+ */
+export function startWakeWordListener(
+  phrase: string,
+  onDetected: () => void,
+  backend: WakeWordBackend,
+  lang = 'zh-CN'
+): WakeWordListener | null {
+  const target = normalize(phrase);
+  if (!target) throw new Error('唤醒词不能为空');
+  const Recognition = getRecognition();
+  if (!Recognition) return null;
+
+  let active = true;
+  const recognition = new Recognition();
+  recognition.lang = lang;
+  recognition.continuous = true;
+  recognition.interimResults = true;
+  if (backend === 'local') recognition.processLocally = true;
+
+  recognition.onresult = (e: any) => {
+    for (let i = e.resultIndex; i < e.results.length; i++) {
+      if (normalize(e.results[i][0].transcript).includes(target)) {
+        onDetected();
+        // Restart so the same utterance doesn't trigger twice
+        recognition.abort();
+        return;
+      }
+    }
+  };
+  recognition.onend = () => {
+    if (active) {
+      try { recognition.start(); } catch (_) {}
+    }
+  };
+  recognition.onerror = (e: any) => {
+    // "not-allowed" means the user blocked it; retrying would spin forever
+    if (e.error === 'not-allowed' || e.error === 'service-not-allowed') active = false;
+  };
+  recognition.start();
+
+  return {
+    stop: () => {
+      active = false;
+      recognition.abort();
+    },
+  };
+}
@@ -10,9 +10,9 @@ export default defineConfig(({ mode }) => {
         host: '0.0.0.0',
       },
       plugins: [react()],
+      // The API key stays with the token server (npm run token-server); the page only learns where to ask
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.TOKEN_SERVER_URL': JSON.stringify(env.TOKEN_SERVER_URL || 'http://localhost:8787/token')
       },
       resolve: {
         alias: {